@@ -1,13 +1,26 @@
 import { useEffect } from 'react';
-import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, Navigate, Outlet } from 'react-router-dom';
 import GamePage from './components/GamePage';
 import MainMenu from './components/MainMenu';
 import Connecting from './components/Connecting';
+import Reconnecting from './components/Reconnecting';
+import ReplayPage from './components/ReplayPage';
+import ReplayLibrary from './components/ReplayLibrary';
+import SpectatePage from './components/SpectatePage';
+import ProfilePage from './components/ProfilePage';
 import { useSocketStore } from './stores/useSocketStore';
 import './App.css';
 
+// Online routes wait for the server; keep them mounted while reconnecting
+// so an in-progress match survives a dropped connection
+function RequireConnection() {
+  const { connected, reconnecting } = useSocketStore();
+  if (!connected && !reconnecting) return <Connecting />;
+  return <Outlet />;
+}
+
 function App() {
-  const { connected, finalScore, setFinalScore, setRoom, connect } = useSocketStore();
+  const { finalScore, setFinalScore, setRoom, connect } = useSocketStore();
 
   useEffect(() => {
     connect();
@@ -15,11 +28,23 @@ function App() {
 
   return (
     <div className="w-full h-screen overflow-hidden bg-black relative font-sans">
-      {!connected && <Connecting />}
-
-      {connected && (
-        <BrowserRouter>
-          <Routes>
+      <BrowserRouter>
+        <Routes>
+          {/* Practice runs offline — no connection required */}
+          <Route
+            path="/game/practice"
+            element={
+              <GamePage
+                onExit={() => setRoom(null)}
+              />
+            }
+          />
+          {/* Replays are stored locally and play back offline */}
+          <Route path="/replay" element={<ReplayLibrary />} />
+          <Route path="/replay/:id" element={<ReplayPage />} />
+          {/* Profiles fall back to the copy cached on this device when offline */}
+          <Route path="/profile/:userId" element={<ProfilePage />} />
+          <Route element={<RequireConnection />}>
             <Route
               path="/"
               element={
@@ -37,10 +62,22 @@ function App() {
                 />
               }
             />
-            <Route path="*" element={<Navigate to="/" />} />
-          </Routes>
-        </BrowserRouter>
-      )}
+            {/* Private room deep link */}
+            <Route
+              path="/game/:mode/:code"
+              element={
+                <GamePage
+                  onExit={() => setRoom(null)}
+                />
+              }
+            />
+            {/* Watch a live match read-only */}
+            <Route path="/spectate/:code" element={<SpectatePage />} />
+          </Route>
+          <Route path="*" element={<Navigate to="/" />} />
+        </Routes>
+        <Reconnecting />
+      </BrowserRouter>
     </div>
   );
 }
@@ -0,0 +1,33 @@
+import React, { useEffect } from 'react';
+import { useAchievementStore } from '../stores/useAchievementStore';
+import './AchievementToast.css';
+
+/** How long each unlock stays up (ms); queued unlocks follow one another. */
+const TOAST_MS = 3500;
+
+/** Announces achievements over the canvas as they unlock. */
+const AchievementToast: React.FC = () => {
+    const { toasts, dismissToast } = useAchievementStore();
+    const toast = toasts[0];
+
+    useEffect(() => {
+        if (!toast) return;
+        const timer = setTimeout(dismissToast, TOAST_MS);
+        return () => clearTimeout(timer);
+    }, [toast, dismissToast]);
+
+    if (!toast) return null;
+
+    return (
+        <div key={toast.id} className="achievement-toast" role="status" onClick={dismissToast}>
+            <span className="achievement-toast-icon">{toast.icon}</span>
+            <div>
+                <div className="achievement-toast-label">Achievement Unlocked</div>
+                <div className="achievement-toast-name">{toast.name}</div>
+                <div className="achievement-toast-description">{toast.description}</div>
+            </div>
+        </div>
+    );
+};
+
+export default AchievementToast;
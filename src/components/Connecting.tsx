@@ -1,4 +1,5 @@
 import React from 'react';
+import { Link } from 'react-router-dom';
 import './Connecting.css';
 
 const Connecting: React.FC = () => {
@@ -22,6 +23,10 @@ const Connecting: React.FC = () => {
                     <span>.</span>
                     <span>.</span>
                 </div>
+
+                <Link to="/game/practice" className="connecting-practice">
+                    Practice Offline
+                </Link>
             </div>
         </div>
     );
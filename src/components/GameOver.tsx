@@ -1,12 +1,24 @@
 import React, { useMemo, useCallback, useState } from 'react';
-import type { Room } from '../types';
+import type { Player, Room } from '../types';
 import { shareScoreCard } from './ShareCard';
+import ShotHistory from './ShotHistory';
+import { useMatchStore } from '../stores/useMatchStore';
+import { useAchievementStore } from '../stores/useAchievementStore';
+import { rankPlayers, displayName, ordinal } from '../game/standings';
+import { seatColor } from '../game/palettes';
+import { roomFace } from '../game/faces';
+import { formatDailyDate } from '../game/daily';
+import { expectedScore, matchResult, playerRating, ratingChangeFor, ratingDelta } from '../game/rating';
+import { unlockedAchievements } from '../game/achievements';
+import RankBadge from './RankBadge';
 import './GameOver.css';
 
 interface GameOverProps {
     room: Room;
     playerId: string | undefined;
     onPlayAgain: () => void;
+    onWatchReplay?: () => void;   // present once the match's replay has been saved
+    spectating?: boolean;         // watched, not played — results aren't from anyone's point of view
 }
 
 type RatingTier = {
@@ -17,12 +29,13 @@ type RatingTier = {
     showBeams: boolean;
 };
 
-function getRating(avg: number): RatingTier {
-    if (avg >= 9.5) return { text: 'PERFECT', colorClass: 'gameover-title--gold', subtitle: 'Legendary accuracy', glow: 'rgba(201, 168, 76, 0.35)', showBeams: true };
-    if (avg >= 8) return { text: 'EXCELLENT', colorClass: 'gameover-title--green', subtitle: 'Sharp shooting', glow: 'rgba(110, 231, 183, 0.3)', showBeams: true };
-    if (avg >= 6) return { text: 'GREAT', colorClass: 'gameover-title--blue', subtitle: 'Well done', glow: 'rgba(125, 211, 252, 0.2)', showBeams: false };
-    if (avg >= 4) return { text: 'GOOD', colorClass: 'gameover-title--purple', subtitle: 'Solid effort', glow: 'rgba(167, 139, 250, 0.2)', showBeams: false };
-    if (avg >= 2) return { text: 'OK', colorClass: 'gameover-title--muted', subtitle: 'Keep practicing', glow: 'rgba(148, 163, 184, 0.15)', showBeams: false };
+/** Rating for the average arrow as a fraction of the face's best score. */
+function getRating(accuracy: number): RatingTier {
+    if (accuracy >= 0.95) return { text: 'PERFECT', colorClass: 'gameover-title--gold', subtitle: 'Legendary accuracy', glow: 'rgba(201, 168, 76, 0.35)', showBeams: true };
+    if (accuracy >= 0.8) return { text: 'EXCELLENT', colorClass: 'gameover-title--green', subtitle: 'Sharp shooting', glow: 'rgba(110, 231, 183, 0.3)', showBeams: true };
+    if (accuracy >= 0.6) return { text: 'GREAT', colorClass: 'gameover-title--blue', subtitle: 'Well done', glow: 'rgba(125, 211, 252, 0.2)', showBeams: false };
+    if (accuracy >= 0.4) return { text: 'GOOD', colorClass: 'gameover-title--purple', subtitle: 'Solid effort', glow: 'rgba(167, 139, 250, 0.2)', showBeams: false };
+    if (accuracy >= 0.2) return { text: 'OK', colorClass: 'gameover-title--muted', subtitle: 'Keep practicing', glow: 'rgba(148, 163, 184, 0.15)', showBeams: false };
     return { text: 'ROUGH', colorClass: 'gameover-title--red', subtitle: 'Try again', glow: 'rgba(248, 113, 113, 0.15)', showBeams: false };
 }
 
@@ -123,36 +136,146 @@ const AccuracyRing: React.FC<{ score: number; color: string; glow: string; accur
     );
 };
 
-const GameOver: React.FC<GameOverProps> = ({ room, playerId, onPlayAgain }) => {
+const signed = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+
+/** Ranked head-to-head: the rating change, and what a win or a loss was worth going in. */
+const RatingSummary: React.FC<{ room: Room; me: Player; opponent: Player }> = ({ room, me, opponent }) => {
+    const before = playerRating(me);
+    const against = playerRating(opponent);
+    // The server's figure once it arrives; our own Elo estimate until then
+    const change = ratingChangeFor(room, me.userId);
+    const delta = change ? change.after - change.before : ratingDelta(before, against, matchResult(me.score, opponent.score));
+    const after = change ? change.after : before + delta;
+
+    return (
+        <div className="gameover-rating">
+            <div className="gameover-rating-change">
+                <span className="gameover-rating-before">{before}</span>
+                <span className="gameover-rating-arrow">→</span>
+                <span className="gameover-rating-after">{after}</span>
+                <span className={`gameover-rating-delta ${delta > 0 ? 'gameover-rating-delta--up' : delta < 0 ? 'gameover-rating-delta--down' : ''}`}>
+                    {signed(delta)}
+                </span>
+                <RankBadge rating={after} />
+            </div>
+            <div className="gameover-rating-expected">
+                {Math.round(expectedScore(before, against) * 100)}% to win vs {against}
+                {' · '}win {signed(ratingDelta(before, against, 1))}
+                {' · '}loss {signed(ratingDelta(before, against, 0))}
+                {!change && ' · updating…'}
+            </div>
+        </div>
+    );
+};
+
+const StandingsTable: React.FC<{ room: Room; playerId: string | undefined }> = ({ room, playerId }) => (
+    <div className="gameover-standings">
+        {rankPlayers(room.players).map(({ player, seat, rank }) => (
+            <div
+                key={player.userId}
+                className={`gameover-standing ${player.userId === playerId ? 'gameover-standing--me' : ''} ${rank === 1 ? 'gameover-standing--first' : ''}`}
+            >
+                <span className="gameover-standing-rank">{rank}</span>
+                <span className="gameover-standing-dot" style={{ background: seatColor(seat) }} />
+                <span className="gameover-standing-name">
+                    {player.userId === playerId ? 'You' : displayName(player, seat)}
+                </span>
+                <span className="gameover-standing-score">{player.score}</span>
+            </div>
+        ))}
+    </div>
+);
+
+const GameOver: React.FC<GameOverProps> = ({ room, playerId, onPlayAgain, onWatchReplay, spectating = false }) => {
     const me = room.players.find(p => p.userId === playerId);
     const myScore = me?.score || 0;
     const [sharing, setSharing] = useState(false);
+    const { roomId, shots: loggedShots } = useMatchStore();
+    const shots = roomId === room.id ? loggedShots : [];
 
     const handleShare = useCallback(async () => {
         setSharing(true);
         try {
-            await shareScoreCard(room, playerId);
+            const badges = spectating || !playerId
+                ? []
+                : unlockedAchievements(useAchievementStore.getState().progress[playerId]);
+            await shareScoreCard(room, playerId, badges);
         } catch (e) {
             console.error('Share failed:', e);
         } finally {
             setSharing(false);
         }
-    }, [room, playerId]);
+    }, [room, playerId, spectating]);
 
-    if (room.mode === 'solo') {
+    const shareButtons = (
+        <>
+            <div className="gameover-btn-row">
+                <button className="gameover-btn gameover-btn--share" onClick={handleShare} disabled={sharing}>
+                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                        <path d="M4 12v8a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2v-8" />
+                        <polyline points="16 6 12 2 8 6" />
+                        <line x1="12" y1="2" x2="12" y2="15" />
+                    </svg>
+                    {sharing ? 'SHARING…' : 'SHARE'}
+                </button>
+                <button className="gameover-btn" onClick={onPlayAgain}>
+                    PLAY AGAIN
+                </button>
+            </div>
+            {onWatchReplay && (
+                <button className="gameover-replay-btn" onClick={onWatchReplay}>
+                    Watch Replay
+                </button>
+            )}
+        </>
+    );
+
+    const history = <ShotHistory room={room} playerId={playerId} shots={shots} />;
+
+    // ── Spectator: final standings for everyone ──
+    if (spectating) {
+        const leaders = rankPlayers(room.players).filter(s => s.rank === 1);
+        const subtitle = leaders.length === 1
+            ? `${displayName(leaders[0].player, leaders[0].seat)} takes the match`
+            : 'Shared first place';
+
+        return (
+            <div className="gameover">
+                <SVGTargetRings />
+
+                <div className="gameover-card">
+                    <div className="gameover-label">Match Over</div>
+                    <div className="gameover-title gameover-title--cream">{leaders.length === 1 ? 'FINAL' : 'DRAW'}</div>
+                    <div className="gameover-subtitle">{subtitle}</div>
+
+                    <StandingsTable room={room} playerId={playerId} />
+
+                    <button className="gameover-btn" onClick={onPlayAgain}>
+                        BACK TO MENU
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    if (room.mode !== 'multiplayer') {
         const shotsCount = Math.max(1, room.round - 1);
         const avgPerShot = myScore / shotsCount;
-        const accuracyPct = Math.min(1, avgPerShot / 10);
-        const rating = getRating(avgPerShot);
+        const accuracyPct = Math.min(1, avgPerShot / roomFace(room).maxScore);
+        const rating = getRating(accuracyPct);
 
         return (
             <div className="gameover">
                 <SVGTargetRings />
                 {rating.showBeams && <RadialBeams color={rating.glow} />}
-                {avgPerShot >= 6 && <Sparkles color={rating.glow} count={12} />}
+                {accuracyPct >= 0.6 && <Sparkles color={rating.glow} count={12} />}
 
                 <div className="gameover-card">
-                    <div className="gameover-label">Time's Up</div>
+                    <div className="gameover-label">
+                        {room.daily
+                            ? `Daily Challenge · ${formatDailyDate(room.daily.date)}${room.daily.ranked ? '' : ' · Unranked'}`
+                            : room.mode === 'practice' ? 'Practice Complete' : "Time's Up"}
+                    </div>
                     <div className={`gameover-title ${rating.colorClass}`}>{rating.text}</div>
                     <div className="gameover-subtitle">{rating.subtitle}</div>
 
@@ -178,25 +301,45 @@ const GameOver: React.FC<GameOverProps> = ({ room, playerId, onPlayAgain }) => {
                         </div>
                     </div>
 
-                    <div className="gameover-btn-row">
-                        <button className="gameover-btn gameover-btn--share" onClick={handleShare} disabled={sharing}>
-                            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                                <path d="M4 12v8a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2v-8" />
-                                <polyline points="16 6 12 2 8 6" />
-                                <line x1="12" y1="2" x2="12" y2="15" />
-                            </svg>
-                            {sharing ? 'SHARING…' : 'SHARE'}
-                        </button>
-                        <button className="gameover-btn" onClick={onPlayAgain}>
-                            PLAY AGAIN
-                        </button>
-                    </div>
+                    {history}
+                    {shareButtons}
+                </div>
+            </div>
+        );
+    }
+
+    // ── Group match (3+ players): ranked results table ──
+    if (room.players.length > 2) {
+        const standings = rankPlayers(room.players);
+        const myRank = standings.find(s => s.player.userId === playerId)?.rank ?? standings.length;
+        const sharedFirst = myRank === 1 && standings.filter(s => s.rank === 1).length > 1;
+        const isWinner = myRank === 1 && !sharedFirst;
+
+        const resultText = isWinner ? 'VICTORY' : sharedFirst ? 'DRAW' : `${ordinal(myRank).toUpperCase()} PLACE`;
+        const resultClass = isWinner ? 'gameover-title--gold' : myRank <= 3 ? 'gameover-title--cream' : 'gameover-title--muted';
+        const subtitle = isWinner ? 'Champion archer' : sharedFirst ? 'Shared first place' : `Out of ${standings.length} archers`;
+
+        return (
+            <div className="gameover">
+                <SVGTargetRings />
+                {isWinner && <RadialBeams color="#c9a84c" />}
+                {isWinner && <Sparkles color="#c9a84c" count={8} />}
+
+                <div className="gameover-card">
+                    <div className="gameover-label">Game Over</div>
+                    <div className={`gameover-title ${resultClass}`}>{resultText}</div>
+                    <div className="gameover-subtitle">{subtitle}</div>
+
+                    <StandingsTable room={room} playerId={playerId} />
+
+                    {history}
+                    {shareButtons}
                 </div>
             </div>
         );
     }
 
-    // ── Multiplayer ──
+    // ── Multiplayer (head-to-head) ──
     const opponent = room.players.find(p => p.userId !== playerId);
     const oppScore = opponent?.score || 0;
 
@@ -229,7 +372,7 @@ const GameOver: React.FC<GameOverProps> = ({ room, playerId, onPlayAgain }) => {
             {myScore > oppScore && <Sparkles color="#c9a84c" count={8} />}
 
             <div className="gameover-card">
-                <div className="gameover-label">Game Over</div>
+                <div className="gameover-label">{room.ranked ? 'Ranked Match' : 'Game Over'}</div>
                 <div className={`gameover-title ${resultClass}`}>{resultText}</div>
                 <div className="gameover-subtitle">{subtitle}</div>
 
@@ -249,19 +392,10 @@ const GameOver: React.FC<GameOverProps> = ({ room, playerId, onPlayAgain }) => {
                     </div>
                 </div>
 
-                <div className="gameover-btn-row">
-                    <button className="gameover-btn gameover-btn--share" onClick={handleShare} disabled={sharing}>
-                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                            <path d="M4 12v8a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2v-8" />
-                            <polyline points="16 6 12 2 8 6" />
-                            <line x1="12" y1="2" x2="12" y2="15" />
-                        </svg>
-                        {sharing ? 'SHARING…' : 'SHARE'}
-                    </button>
-                    <button className="gameover-btn" onClick={onPlayAgain}>
-                        PLAY AGAIN
-                    </button>
-                </div>
+                {room.ranked && me && opponent && <RatingSummary room={room} me={me} opponent={opponent} />}
+
+                {history}
+                {shareButtons}
             </div>
         </div>
     );
@@ -1,34 +1,79 @@
-import React, { useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import GameCanvas from './GameCanvas';
 import GameUI from './GameUI';
 import GameOver from './GameOver';
+import Lobby from './Lobby';
+import AchievementToast from './AchievementToast';
 import { useSocketStore } from '../stores/useSocketStore';
-import type { Room } from '../types';
+import { useMatchStore } from '../stores/useMatchStore';
+import { useSettingsStore } from '../stores/useSettingsStore';
+import { useDailyStore } from '../stores/useDailyStore';
+import { useAchievementStore } from '../stores/useAchievementStore';
+import { createSocketChannel, type GameChannel } from '../game/channel';
+import { createPracticeChannel, LOCAL_PLAYER_ID } from '../game/practiceEngine';
+import { normalizeRoomCode } from '../game/roomCode';
+import { createReplayRecorder, saveReplay } from '../game/replay';
+import { resolveTheme } from '../game/themes';
+import { dailyDate } from '../game/daily';
+import { ratingChangeFor } from '../game/rating';
+import { roomFace } from '../game/faces';
+import { validatedOrFail, isJoinRoomResponse, ACK_TIMEOUT_MS } from '../socket/validation';
+import type { Room, ShotResult } from '../types';
 
 
 interface GamePageProps {
     onExit: () => void;
 }
 
+const isMatchOver = (room: Room) =>
+    room.mode === 'solo' ? room.timeRemaining <= 0 : room.round > room.maxRounds;
+
 const GamePage: React.FC<GamePageProps> = ({ onExit }) => {
-    const { mode } = useParams<{ mode: 'solo' | 'multiplayer' }>();
+    const { mode, code } = useParams<{ mode: Room['mode']; code?: string }>();
     const navigate = useNavigate();
-    const { socket, room, setRoom, playerId, setFinalScore } = useSocketStore();
+    const [searchParams] = useSearchParams();
+    const movingTarget = searchParams.get('target') === 'moving';
+    // The challenge date is fixed when the page opens, so a run that crosses midnight stays on its day
+    const isDaily = mode === 'solo' && searchParams.get('challenge') === 'daily';
+    const daily = useMemo(() => isDaily ? dailyDate() : null, [isDaily]);
+    const ranked = mode === 'multiplayer' && !code && searchParams.get('queue') === 'ranked';
+    const { socket, connected, room, setRoom, playerId: registeredId, setFinalScore, setRating } = useSocketStore();
+    const { resetMatch, recordRelease, recordShot } = useMatchStore();
+    const { theme: themePreference, face } = useSettingsStore();
+
+    // Practice runs entirely in the browser under a local id, so it works
+    // before (or without) registering with the server
+    const isPractice = mode === 'practice';
+    const roomCode = mode === 'multiplayer' && code ? normalizeRoomCode(code) : undefined;
+    const [joinError, setJoinError] = useState<string | null>(null);
+    const [replayId, setReplayId] = useState<string | null>(null);
+    const playerId = isPractice ? LOCAL_PLAYER_ID : registeredId;
+
+    const practice = useMemo(
+        () => isPractice ? createPracticeChannel(LOCAL_PLAYER_ID, { movingTarget, face }) : null,
+        [isPractice, movingTarget, face]
+    );
+    const channel = useMemo<GameChannel | null>(
+        () => practice ?? (socket ? createSocketChannel(socket) : null),
+        [practice, socket]
+    );
 
     useEffect(() => {
-        if (mode !== 'solo' && mode !== 'multiplayer') {
+        if (mode !== 'solo' && mode !== 'multiplayer' && mode !== 'practice') {
             navigate('/');
             return;
         }
 
-        if (!socket || !playerId) return;
-
-        socket.emit('joinGame', mode);
+        if (!channel) return;
+        if (!practice && (!socket || !playerId)) return;
 
         const handleGameState = (data: Room) => {
             setRoom(data);
 
+            // Practice never submits to the leaderboard
+            if (data.mode === 'practice') return;
+
             const userId = useSocketStore.getState().playerId;
 
             // If new game started, clear final score
@@ -43,35 +88,125 @@ const GamePage: React.FC<GamePageProps> = ({ onExit }) => {
                 const me = data.players.find(p => p.userId === userId);
                 if (me) {
                     setFinalScore(me.score);
+                    if (data.daily?.ranked) useDailyStore.getState().recordRanked({ date: data.daily.date, score: me.score });
+                    const change = ratingChangeFor(data, userId);
+                    if (change) setRating(change.after);
+                    if (userId) useAchievementStore.getState().recordMatch(userId, data);
                 }
             }
         };
 
-        socket.on('gameState', handleGameState);
+        const recorder = createReplayRecorder();
+        let replaySaved = false;
+
+        // Log every arrow against the room as it stood at release (before the next gameState)
+        const handleShotResult = (data: ShotResult) => {
+            const current = useSocketStore.getState().room;
+            if (current) recordShot(data, current, playerId);
+            recorder.shotResult(data);
+
+            // Practice is offline and unranked — it doesn't earn achievements
+            if (current && !practice && playerId && data.player === playerId) {
+                useAchievementStore.getState().recordShot(playerId, useMatchStore.getState().shots, roomFace(current));
+            }
+        };
+
+        // Record every room update the screen sees — gameState and solo timer ticks alike —
+        // and save the replay once the match is over
+        const unsubscribeRecorder = useSocketStore.subscribe((state, prev) => {
+            if (!state.room || state.room === prev.room || replaySaved) return;
+            recorder.gameState(state.room);
+            if (isMatchOver(state.room) && playerId) {
+                const replay = recorder.finish(playerId);
+                if (replay) {
+                    saveReplay(replay);
+                    setReplayId(replay.id);
+                }
+                replaySaved = true;
+            }
+        });
+
+        resetMatch();
+        const unsubscribeState = channel.on('gameState', handleGameState);
+        const unsubscribeShots = channel.on('shotResult', handleShotResult);
+
+        if (practice) {
+            practice.start();
+        } else if (roomCode) {
+            // Private room — the creator joins their own room through the same deep link
+            socket?.timeout(ACK_TIMEOUT_MS).emit('joinRoom', { code: roomCode }, validatedOrFail('joinRoom', isJoinRoomResponse, (response) => {
+                setJoinError(response.ok ? null : response.error || 'Room not found');
+            }, () => setJoinError('Could not join the room. Try again.')));
+        } else if (mode !== 'practice') {
+            // The daily run is the same for everyone: no choice of face or moving target
+            socket?.emit('joinGame', mode, daily ? { daily } : { face, ...(movingTarget && { movingTarget }), ...(ranked && { ranked }) });
+        }
 
         return () => {
-            socket.off('gameState', handleGameState);
+            unsubscribeState();
+            unsubscribeShots();
+            unsubscribeRecorder();
+            practice?.dispose();
         };
-    }, [mode, navigate, socket, playerId]);
+    }, [mode, roomCode, movingTarget, face, daily, ranked, navigate, socket, playerId, channel, practice]);
 
     const handleGameExit = () => {
         onExit();
         navigate('/');
     };
 
+    const handleWatchReplay = () => {
+        onExit();
+        navigate(`/replay/${replayId}`);
+    };
+
+    // Free the seat so the host's lobby stops listing us
+    const handleLeaveLobby = () => {
+        if (room) socket?.emit('leaveRoom', { roomId: room.id });
+        handleGameExit();
+    };
+
+    const handleStartMatch = () => {
+        if (room) socket?.emit('startMatch', { roomId: room.id });
+    };
+
+    // Private rooms wait in the lobby until the host starts the match
+    if (roomCode && (joinError || !room || room.status === 'lobby')) {
+        return (
+            <Lobby
+                code={roomCode}
+                room={room}
+                playerId={playerId}
+                error={joinError}
+                onStart={handleStartMatch}
+                onLeave={handleLeaveLobby}
+            />
+        );
+    }
+
     // Determine if the game is over
-    const isGameOver = room && (
-        room.mode === 'solo'
-            ? room.timeRemaining <= 0
-            : room.round > room.maxRounds
-    );
+    const isGameOver = room && isMatchOver(room);
 
     return (
         <>
-            <GameCanvas onExit={handleGameExit} />
+            <GameCanvas
+                room={room}
+                playerId={playerId}
+                channel={channel}
+                inputEnabled={isPractice || connected}
+                onRelease={recordRelease}
+                theme={resolveTheme(themePreference, room)}
+                onExit={handleGameExit}
+            />
             <GameUI room={room} playerId={playerId} />
+            <AchievementToast />
             {isGameOver && room && (
-                <GameOver room={room} playerId={playerId} onPlayAgain={handleGameExit} />
+                <GameOver
+                    room={room}
+                    playerId={playerId}
+                    onPlayAgain={handleGameExit}
+                    onWatchReplay={replayId ? handleWatchReplay : undefined}
+                />
             )}
         </>
     );
@@ -1,13 +1,43 @@
 import React from 'react';
 import type { Room } from '../types';
+import { displayName, turnOrder } from '../game/standings';
+import { seatColor } from '../game/palettes';
+import { roomDistance } from '../game/distance';
+import RankBadge from './RankBadge';
 import './GameUI.css';
 
 interface GameUIProps {
     room: Room | null;
     playerId: string | undefined;
+    spectating?: boolean;   // watching read-only — nobody on the HUD is "you"
 }
 
-const GameUI: React.FC<GameUIProps> = ({ room, playerId }) => {
+/** Meters to the target; remounted on change so the step back is noticed. */
+const Distance: React.FC<{ room: Room }> = ({ room }) => {
+    const meters = roomDistance(room);
+    return <div key={meters} className="hud-distance">{meters}m</div>;
+};
+
+/** Turn order strip: whoever is up first, then the rest in seat order. */
+const TurnStrip: React.FC<{ room: Room; playerId: string | undefined }> = ({ room, playerId }) => (
+    <div className="hud-turn-strip">
+        {turnOrder(room).map(({ player, seat }, i) => (
+            <div
+                key={player.userId}
+                className={`hud-turn-chip ${i === 0 ? 'hud-turn-chip--active' : ''}`}
+            >
+                <span className="hud-turn-dot" style={{ background: seatColor(seat) }} />
+                <span className="hud-turn-name">
+                    {player.userId === playerId ? 'You' : displayName(player, seat)}
+                </span>
+                <RankBadge rating={player.rating} />
+                <span className="hud-turn-score">{player.score}</span>
+            </div>
+        ))}
+    </div>
+);
+
+const GameUI: React.FC<GameUIProps> = ({ room, playerId, spectating = false }) => {
     if (!room) return <div className="hud-waiting">Waiting for players…</div>;
 
     // Solo: game over when time runs out; Multiplayer: game over when round > maxRounds
@@ -40,6 +70,7 @@ const GameUI: React.FC<GameUIProps> = ({ room, playerId }) => {
                         <div className={timerClass}>
                             <span className={timerValueClass}>{timeLeft}s</span>
                         </div>
+                        <Distance room={room} />
                         <div className="hud-meta">Shot {room.round}</div>
                     </div>
 
@@ -51,49 +82,139 @@ const GameUI: React.FC<GameUIProps> = ({ room, playerId }) => {
         );
     }
 
+    if (room.mode === 'practice') {
+        return (
+            <div className="game-hud">
+                <div className="game-hud-top">
+                    {/* Score */}
+                    <div className="hud-score-card hud-score-card--active">
+                        <div className="hud-score-label hud-score-label--gold">Score</div>
+                        <div className="hud-score-value">{me?.score || 0}</div>
+                    </div>
+
+                    {/* Arrows */}
+                    <div className="hud-center">
+                        <div className="hud-round">
+                            <span className="hud-round-text">
+                                Arrow {room.round} / {room.maxRounds}
+                            </span>
+                        </div>
+                        <Distance room={room} />
+                        <div className="hud-meta">Practice · Offline</div>
+                    </div>
+
+                    {/* Spacer */}
+                    <div className="hud-spacer" />
+                </div>
+
+            </div>
+        );
+    }
+
     // ── Multiplayer UI ──
     const isMyTurn = room.currentTurn === playerId;
     const opponent = room.players.find(p => p.userId !== playerId);
+    const isGroupMatch = room.players.length > 2;
+    const currentSeat = room.players.findIndex(p => p.userId === room.currentTurn);
+    const currentName = currentSeat >= 0 ? displayName(room.players[currentSeat], currentSeat) : 'Opponent';
+
+    const roundLabel = room.round === room.maxRounds ? (
+        <span className="hud-round-text hud-round-final">Final Round</span>
+    ) : (
+        <span className="hud-round-text">
+            Round {room.round} / {room.maxRounds}
+        </span>
+    );
+
+    // ── Spectator UI: every archer by name ──
+    if (spectating) {
+        const seatCard = (seat: number) => {
+            const player = room.players[seat];
+            if (!player) return <div className="hud-spacer" />;
+            const isUp = player.userId === room.currentTurn;
+            return (
+                <div className={`hud-score-card ${isUp ? 'hud-score-card--active' : ''}`}>
+                    <div className={`hud-score-label ${isUp ? 'hud-score-label--gold' : ''}`}>
+                        {displayName(player, seat)}
+                        <RankBadge rating={player.rating} />
+                    </div>
+                    <div className="hud-score-value">{player.score}</div>
+                </div>
+            );
+        };
+
+        return (
+            <div className="game-hud">
+                <div className="game-hud-top">
+                    {isGroupMatch ? <div className="hud-spacer" /> : seatCard(0)}
+
+                    <div className="hud-center">
+                        <div className="hud-round">{roundLabel}</div>
+                        <Distance room={room} />
+                        {room.players.length > 1 ? (
+                            <div className="hud-turn-badge hud-turn-badge--opponent">{currentName}'s Turn</div>
+                        ) : (
+                            <div className="hud-turn-badge hud-turn-badge--waiting">Waiting for Archers</div>
+                        )}
+                        <div className="hud-meta">Spectating</div>
+                    </div>
+
+                    {isGroupMatch ? <div className="hud-spacer" /> : seatCard(1)}
+                </div>
+
+                {isGroupMatch && <TurnStrip room={room} playerId={playerId} />}
+            </div>
+        );
+    }
 
     return (
         <div className="game-hud">
             <div className="game-hud-top">
                 {/* My Score */}
                 <div className={`hud-score-card ${isMyTurn ? 'hud-score-card--active' : ''}`}>
-                    <div className={`hud-score-label ${isMyTurn ? 'hud-score-label--gold' : ''}`}>You</div>
+                    <div className={`hud-score-label ${isMyTurn ? 'hud-score-label--gold' : ''}`}>
+                        You
+                        <RankBadge rating={me?.rating} />
+                    </div>
                     <div className="hud-score-value">{me?.score || 0}</div>
                 </div>
 
                 {/* Center */}
                 <div className="hud-center">
-                    <div className="hud-round">
-                        {room.round === room.maxRounds ? (
-                            <span className="hud-round-text hud-round-final">Final Round</span>
-                        ) : (
-                            <span className="hud-round-text">
-                                Round {room.round} / {room.maxRounds}
-                            </span>
-                        )}
-                    </div>
+                    <div className="hud-round">{roundLabel}</div>
+                    <Distance room={room} />
 
                     {isMyTurn && (
                         <div className="hud-turn-badge hud-turn-badge--mine">Your Turn</div>
                     )}
                     {!isMyTurn && room.players.length > 1 && (
-                        <div className="hud-turn-badge hud-turn-badge--opponent">Opponent's Turn</div>
+                        <div className="hud-turn-badge hud-turn-badge--opponent">
+                            {isGroupMatch ? `${currentName}'s Turn` : "Opponent's Turn"}
+                        </div>
                     )}
                     {!isMyTurn && room.players.length === 1 && (
-                        <div className="hud-turn-badge hud-turn-badge--waiting">Waiting for Opponent</div>
+                        <div className="hud-turn-badge hud-turn-badge--waiting">
+                            {room.ranked ? 'Finding a Rated Opponent' : 'Waiting for Opponent'}
+                        </div>
                     )}
                 </div>
 
-                {/* Opponent Score */}
-                <div className={`hud-score-card ${!isMyTurn && room.players.length > 1 ? 'hud-score-card--opponent-active' : ''}`}>
-                    <div className="hud-score-label">Opponent</div>
-                    <div className="hud-score-value">{opponent?.score || 0}</div>
-                </div>
+                {/* Opponent Score (head-to-head) — group matches use the turn strip instead */}
+                {isGroupMatch ? (
+                    <div className="hud-spacer" />
+                ) : (
+                    <div className={`hud-score-card ${!isMyTurn && room.players.length > 1 ? 'hud-score-card--opponent-active' : ''}`}>
+                        <div className="hud-score-label">
+                            Opponent
+                            <RankBadge rating={opponent?.rating} />
+                        </div>
+                        <div className="hud-score-value">{opponent?.score || 0}</div>
+                    </div>
+                )}
             </div>
 
+            {isGroupMatch && <TurnStrip room={room} playerId={playerId} />}
+
         </div>
     );
 };
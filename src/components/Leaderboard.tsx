@@ -1,14 +1,19 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useLayoutEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useSocketStore } from '../stores/useSocketStore';
+import { listen, validatedOrFail, isLeaderboardPage, ACK_TIMEOUT_MS } from '../socket/validation';
+import {
+    LEADERBOARD_WINDOWS,
+    LEADERBOARD_MODES,
+    scopeFromParams,
+    withScopeParams,
+    lastSeenRank,
+    rememberRank,
+} from '../game/leaderboard';
+import RankBadge from './RankBadge';
+import type { LeaderboardEntry, LeaderboardQuery, LeaderboardScope } from '../types';
 import './MainMenu.css';
 
-interface LeaderboardEntry {
-    userId: string;
-    name: string;
-    score: number;
-    date: number;
-}
-
 interface LeaderboardProps {
     onBack?: () => void;
     currentScore?: number | null;
@@ -17,6 +22,24 @@ interface LeaderboardProps {
     className?: string;
 }
 
+const PAGE_SIZE = 25;
+const AROUND_SIZE = 11;   // our row with five either side
+
+/** `page` without anyone already `shown`: ranks can shift between fetches, carrying a player across a page edge. */
+const unseen = (page: LeaderboardEntry[], shown: LeaderboardEntry[]) => {
+    const ids = new Set(shown.map(entry => entry.userId));
+    return page.filter(entry => !ids.has(entry.userId));
+};
+
+/** Places moved since the last visit: up is good. */
+const RankMove: React.FC<{ change: number | null }> = ({ change }) => {
+    if (!change) return null;
+    return (
+        <span className={`lb-move ${change > 0 ? 'lb-move-up' : 'lb-move-down'}`} title={`${Math.abs(change)} places ${change > 0 ? 'up' : 'down'} since your last visit`}>
+            {change > 0 ? '▲' : '▼'}{Math.abs(change)}
+        </span>
+    );
+};
 
 const Leaderboard: React.FC<LeaderboardProps> = ({
     onBack,
@@ -24,24 +47,112 @@ const Leaderboard: React.FC<LeaderboardProps> = ({
     onScoreSubmitted: _onScoreSubmitted,
     variant = 'fullscreen',
 }) => {
-    const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
-    const { socket, playerId } = useSocketStore();
+    const { socket, playerId, playerName } = useSocketStore();
 
-    useEffect(() => {
-        if (!socket) return;
+    // The scope lives in the URL, so a shared link opens the same board
+    const [searchParams, setSearchParams] = useSearchParams();
+    const { window: scopeWindow, mode: scopeMode } = scopeFromParams(searchParams);
+    const setScope = (next: Partial<LeaderboardScope>) =>
+        setSearchParams(params => withScopeParams(params, { ...scopeFromParams(params), ...next }), { replace: true });
 
-        socket.emit('getLeaderboard');
+    // A run of consecutive ranks, grown a page at a time as the list scrolls either way
+    const [block, setBlock] = useState<{ offset: number; entries: LeaderboardEntry[] }>({ offset: 0, entries: [] });
+    const [total, setTotal] = useState(0);
+    const [myRank, setMyRank] = useState<number | null>(null);
+    const [rankChange, setRankChange] = useState<number | null>(null);   // places moved up since the last visit
+    const [aroundMe, setAroundMe] = useState(false);
 
-        const handleUpdate = (data: LeaderboardEntry[]) => {
-            setEntries(data);
+    const listRef = useRef<HTMLDivElement>(null);
+    const generation = useRef(0);              // bumped to drop responses for a view we've left
+    const loading = useRef(false);
+    const rankChanges = useRef(new Map<string, number | null>());   // per board, worked out on its first load
+    const keepBottom = useRef<number | null>(null);   // distance from the bottom to restore after a prepend
+    const centerOnMe = useRef(false);
+
+    const request = useCallback((page: Pick<LeaderboardQuery, 'offset' | 'limit' | 'around'>, place: 'replace' | 'before' | 'after') => {
+        if (!socket) return;
+        const requested = generation.current;
+        loading.current = true;
+        // A lost or malformed page must not block scrolling for good; the next scroll asks again
+        const failed = () => {
+            if (requested !== generation.current) return;
+            loading.current = false;
+            keepBottom.current = null;
         };
+        socket.timeout(ACK_TIMEOUT_MS).emit('getLeaderboard', { window: scopeWindow, mode: scopeMode, ...page }, validatedOrFail('getLeaderboard', isLeaderboardPage, (response) => {
+            if (requested !== generation.current) return;
+            loading.current = false;
+            setTotal(response.total);
+            setMyRank(response.myRank);
+            setBlock(prev => {
+                if (place === 'replace') return { offset: response.offset, entries: response.entries };
+                const fresh = unseen(response.entries, prev.entries);
+                return place === 'after'
+                    ? { offset: prev.offset, entries: [...prev.entries, ...fresh] }
+                    : { offset: prev.offset - fresh.length, entries: [...fresh, ...prev.entries] };
+            });
 
-        socket.on('leaderboardUpdate', handleUpdate);
+            // Compare against the last visit once per board, then remember where we are now.
+            // The change is kept for as long as the board is open, so switching tabs doesn't lose it.
+            const key = `${scopeWindow}:${scopeMode}`;
+            if (response.myRank !== null && !rankChanges.current.has(key)) {
+                const scopeNow = { window: scopeWindow, mode: scopeMode };
+                const previous = lastSeenRank(scopeNow);
+                rankChanges.current.set(key, previous === null ? null : previous - response.myRank);
+                rememberRank(scopeNow, response.myRank);
+            }
+            setRankChange(rankChanges.current.get(key) ?? null);
+        }, failed));
+    }, [socket, scopeWindow, scopeMode]);
 
-        return () => {
-            socket.off('leaderboardUpdate', handleUpdate);
-        };
-    }, [socket]);
+    // New board or view: start over from the top, or from around our own rank
+    useEffect(() => {
+        generation.current += 1;
+        centerOnMe.current = aroundMe;
+        request(aroundMe ? { offset: 0, limit: AROUND_SIZE, around: true } : { offset: 0, limit: PAGE_SIZE }, 'replace');
+    }, [request, aroundMe]);
+
+    // Someone posted a score: the ranks on screen may have shifted, so reload them in place
+    useEffect(() => {
+        if (!socket) return;
+        return listen(socket, 'leaderboardUpdate', () => {
+            generation.current += 1;
+            request({ offset: block.offset, limit: Math.max(block.entries.length, PAGE_SIZE) }, 'replace');
+        });
+    }, [socket, request, block.offset, block.entries.length]);
+
+    // Keep the view steady when ranks are prepended above it, and bring our own row into view on a jump
+    useLayoutEffect(() => {
+        const list = listRef.current;
+        if (!list) return;
+        if (keepBottom.current !== null) {
+            list.scrollTop = list.scrollHeight - keepBottom.current;
+            keepBottom.current = null;
+        }
+        if (centerOnMe.current) {
+            list.querySelector('.lb-entry-me')?.scrollIntoView({ block: 'center' });
+            centerOnMe.current = false;
+        }
+    }, [block]);
+
+    const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+        if (loading.current) return;
+        const list = e.currentTarget;
+        const end = block.offset + block.entries.length;
+        if (list.scrollTop + list.clientHeight >= list.scrollHeight - 60 && end < total) {
+            request({ offset: end, limit: PAGE_SIZE }, 'after');
+        } else if (list.scrollTop <= 20 && block.offset > 0) {
+            const offset = Math.max(0, block.offset - PAGE_SIZE);
+            keepBottom.current = list.scrollHeight - list.scrollTop;
+            request({ offset, limit: block.offset - offset }, 'before');
+        }
+    };
+
+    const unit = LEADERBOARD_MODES.find(m => m.id === scopeMode)?.unit;
+    const emptyText = scopeMode === 'wins' ? 'No wins yet'
+        : scopeWindow === 'today' ? 'No scores yet today'
+        : scopeWindow === 'week' ? 'No scores yet this week'
+        : 'No high scores yet';
 
     const getMedalEmoji = (rank: number) => {
         if (rank === 0) return '🥇';
@@ -77,6 +188,33 @@ const Leaderboard: React.FC<LeaderboardProps> = ({
                 </svg>
             </div>
 
+            {/* Scope: time window tabs, then which results */}
+            <div className="lb-boards" role="tablist">
+                {LEADERBOARD_WINDOWS.map(({ id, label }) => (
+                    <button
+                        key={id}
+                        role="tab"
+                        aria-selected={scopeWindow === id}
+                        className={`lb-board-btn ${scopeWindow === id ? 'lb-board-btn-active' : ''}`}
+                        onClick={() => setScope({ window: id })}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+            <div className="lb-filters">
+                {LEADERBOARD_MODES.map(({ id, label }) => (
+                    <button
+                        key={id}
+                        className={`lb-filter-btn ${scopeMode === id ? 'lb-filter-btn-active' : ''}`}
+                        onClick={() => setScope({ mode: id })}
+                    >
+                        {label}
+                    </button>
+                ))}
+                <span className="lb-filters-unit">{unit}</span>
+            </div>
+
             {/* Current score display (no form needed — auto-submitted) */}
             {currentScore !== null && currentScore !== undefined && (
                 <div className="lb-submit-card">
@@ -86,32 +224,39 @@ const Leaderboard: React.FC<LeaderboardProps> = ({
             )}
 
             {/* Entries */}
-            <div className="lb-list">
-                {entries.map((entry, index) => (
-                    <div
-                        key={index}
-                        className={getEntryClass(index)}
-                        style={{
-                            animationDelay: `${index * 60}ms`,
-                        }}
-                    >
-                        <div className="lb-entry-left">
-                            <div className={getRankClass(index)}>
-                                {getMedalEmoji(index) || (index + 1)}
+            <div className="lb-list" ref={listRef} onScroll={handleScroll}>
+                {block.entries.map((entry, i) => {
+                    const index = block.offset + i;   // 0-based rank
+                    const isMe = entry.userId === playerId;
+                    return (
+                        <div
+                            key={entry.userId}
+                            className={`${getEntryClass(index)} ${isMe ? 'lb-entry-me' : ''}`}
+                            style={{
+                                animationDelay: `${Math.min(i, 8) * 60}ms`,
+                            }}
+                        >
+                            <div className="lb-entry-left">
+                                <div className={getRankClass(index)}>
+                                    {getMedalEmoji(index) || (index + 1)}
+                                </div>
+                                <span className="lb-name">
+                                    {/* Our own row follows a rename before the board is reloaded */}
+                                    {isMe && playerName ? playerName : entry.name}
+                                    <RankBadge rating={entry.rating} />
+                                    {isMe && (
+                                        <span style={{ color: '#c9a84c', fontSize: '10px', marginLeft: '6px' }}>YOU</span>
+                                    )}
+                                    {isMe && <RankMove change={rankChange} />}
+                                </span>
                             </div>
-                            <span className="lb-name">
-                                {entry.name}
-                                {entry.userId === playerId && (
-                                    <span style={{ color: '#c9a84c', fontSize: '10px', marginLeft: '6px' }}>YOU</span>
-                                )}
+                            <span className={`lb-score ${index > 2 ? 'lb-score-default' : ''}`}>
+                                {entry.score}
                             </span>
                         </div>
-                        <span className={`lb-score ${index > 2 ? 'lb-score-default' : ''}`}>
-                            {entry.score}
-                        </span>
-                    </div>
-                ))}
-                {entries.length === 0 && (
+                    );
+                })}
+                {block.entries.length === 0 && (
                     <div className="lb-empty">
                         <svg className="lb-empty-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={1.5}>
                             <circle cx="12" cy="12" r="10" />
@@ -122,11 +267,25 @@ const Leaderboard: React.FC<LeaderboardProps> = ({
                             <line x1="2" y1="12" x2="4" y2="12" />
                             <line x1="20" y1="12" x2="22" y2="12" />
                         </svg>
-                        <span className="lb-empty-text">No high scores yet</span>
+                        <span className="lb-empty-text">{emptyText}</span>
                     </div>
                 )}
             </div>
 
+            {/* Where we stand, wherever that is */}
+            {myRank !== null && (
+                <div className="lb-me-bar">
+                    <span className="lb-me-rank">
+                        You're #{myRank}
+                        {total > 0 && <span className="lb-me-total"> of {total}</span>}
+                        <RankMove change={rankChange} />
+                    </span>
+                    <button className="lb-filter-btn" onClick={() => setAroundMe(!aroundMe)}>
+                        {aroundMe ? 'Back to Top' : 'Jump to Me'}
+                    </button>
+                </div>
+            )}
+
             {onBack && (
                 <button onClick={onBack} className="lb-back-btn">
                     Back to Menu
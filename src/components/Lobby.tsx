@@ -0,0 +1,89 @@
+import React, { useCallback, useState } from 'react';
+import type { Room } from '../types';
+import { MIN_PLAYERS_TO_START, MAX_PLAYERS, roomLink } from '../game/roomCode';
+import { seatColor } from '../game/palettes';
+import { displayName } from '../game/standings';
+import './Lobby.css';
+
+interface LobbyProps {
+    code: string;
+    room: Room | null;              // null until the join is acknowledged
+    playerId: string | undefined;
+    error: string | null;           // join failure (unknown code, room full, …)
+    onStart: () => void;
+    onLeave: () => void;
+}
+
+const Lobby: React.FC<LobbyProps> = ({ code, room, playerId, error, onStart, onLeave }) => {
+    const [copied, setCopied] = useState(false);
+
+    const handleCopyLink = useCallback(async () => {
+        const link = roomLink(code);
+        try {
+            if (navigator.share) {
+                await navigator.share({ title: 'ARCHR Private Room', text: `Join my ARCHR room: ${code}`, url: link });
+                return;
+            }
+            await navigator.clipboard.writeText(link);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch (err) {
+            // User cancelled the share sheet — nothing to do
+            if ((err as DOMException).name !== 'AbortError') console.error('Copy link failed:', err);
+        }
+    }, [code]);
+
+    const isHost = room?.hostId === playerId;
+    const players = room?.players ?? [];
+    const canStart = isHost && players.length >= MIN_PLAYERS_TO_START;
+
+    return (
+        <div className="lobby">
+            <div className="lobby-card">
+                <div className="lobby-label">Private Room</div>
+                <div className="lobby-code">{code}</div>
+
+                {error ? (
+                    <div className="lobby-error">{error}</div>
+                ) : (
+                    <>
+                        <button className="lobby-link-btn" onClick={handleCopyLink}>
+                            {copied ? 'Link Copied' : 'Share Invite Link'}
+                        </button>
+
+                        <div className="lobby-section-title">
+                            Archers <span className="lobby-count">{players.length} / {MAX_PLAYERS}</span>
+                        </div>
+                        <div className="lobby-players">
+                            {players.map((p, seat) => (
+                                <div key={p.userId} className="lobby-player">
+                                    <span className="lobby-player-name">
+                                        <span className="lobby-seat-dot" style={{ background: seatColor(seat) }} />
+                                        {displayName(p, seat)}
+                                        {p.userId === playerId && <span className="lobby-tag lobby-tag--you">You</span>}
+                                    </span>
+                                    {p.userId === room?.hostId && <span className="lobby-tag lobby-tag--host">Host</span>}
+                                </div>
+                            ))}
+                            {!room && <div className="lobby-waiting">Joining…</div>}
+                        </div>
+
+                        {isHost ? (
+                            <button className="lobby-start-btn" onClick={onStart} disabled={!canStart}>
+                                {canStart ? 'Start Match' : 'Waiting for Archers…'}
+                            </button>
+                        ) : room && (
+                            <div className="lobby-waiting">Waiting for the host to start…</div>
+                        )}
+                    </>
+                )}
+
+                <button className="lobby-leave-btn" onClick={onLeave}>
+                    Leave
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default Lobby;
@@ -1,6 +1,13 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
 import Leaderboard from './Leaderboard';
+import PrivateRoomPanel from './PrivateRoomPanel';
+import SettingsPanel from './SettingsPanel';
+import { useDailyStore } from '../stores/useDailyStore';
+import { dailyDate } from '../game/daily';
+import { useSocketStore } from '../stores/useSocketStore';
+import RankBadge from './RankBadge';
+import NameEditor from './NameEditor';
 import './MainMenu.css';
 
 interface MainMenuProps {
@@ -9,6 +16,12 @@ interface MainMenuProps {
 }
 
 const MainMenu: React.FC<MainMenuProps> = ({ currentScore, onScoreSubmitted }) => {
+    const [showPrivateRoom, setShowPrivateRoom] = useState(false);
+    const [showSettings, setShowSettings] = useState(false);
+    const { ranked: dailyResult } = useDailyStore();
+    const playedToday = dailyResult?.date === dailyDate();
+    const { rating, playerId } = useSocketStore();
+
     return (
         <div className="menu-page">
             {/* Floating particles */}
@@ -27,27 +40,64 @@ const MainMenu: React.FC<MainMenuProps> = ({ currentScore, onScoreSubmitted }) =
                         <div className="menu-logo-divider" />
                     </div>
 
-                    <div className="menu-buttons">
-                        <Link to="/game/solo" className="menu-btn menu-btn-primary">
-                            <span>Play</span>
-                            <svg className="menu-btn-arrow" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}>
-                                <path strokeLinecap="round" strokeLinejoin="round" d="M14 5l7 7m0 0l-7 7m7-7H3" />
-                            </svg>
-                        </Link>
-                    </div>
-                    {/* <div className="menu-buttons">
-                        <Link to="/game/solo" className="menu-btn menu-btn-primary">
-                            <span>Play Solo</span>
-                            <svg className="menu-btn-arrow" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}>
-                                <path strokeLinecap="round" strokeLinejoin="round" d="M14 5l7 7m0 0l-7 7m7-7H3" />
-                            </svg>
-                        </Link>
-
-                        <Link to="/game/multiplayer" className="menu-btn menu-btn-secondary">
-                            <span>Multiplayer</span>
-                            <span className="menu-btn-badge">Online</span>
-                        </Link>
-                    </div> */}
+                    <NameEditor />
+
+                    {showPrivateRoom ? (
+                        <PrivateRoomPanel onClose={() => setShowPrivateRoom(false)} />
+                    ) : showSettings ? (
+                        <SettingsPanel onClose={() => setShowSettings(false)} />
+                    ) : (
+                        <div className="menu-buttons">
+                            <Link to="/game/solo" className="menu-btn menu-btn-primary">
+                                <span>Play Solo</span>
+                                <svg className="menu-btn-arrow" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}>
+                                    <path strokeLinecap="round" strokeLinejoin="round" d="M14 5l7 7m0 0l-7 7m7-7H3" />
+                                </svg>
+                            </Link>
+
+                            <Link to="/game/solo?challenge=daily" className="menu-btn menu-btn-secondary">
+                                <span>Daily Challenge</span>
+                                <span className="menu-btn-badge">{playedToday ? `Played · ${dailyResult.score}` : 'New'}</span>
+                            </Link>
+
+                            <Link to="/game/multiplayer" className="menu-btn menu-btn-secondary">
+                                <span>Multiplayer</span>
+                                <span className="menu-btn-badge">Online</span>
+                            </Link>
+
+                            <Link to="/game/multiplayer?queue=ranked" className="menu-btn menu-btn-secondary">
+                                <span>Ranked</span>
+                                {rating !== undefined ? <RankBadge rating={rating} showRating /> : <span className="menu-btn-badge">Unrated</span>}
+                            </Link>
+
+                            <button className="menu-btn menu-btn-secondary" onClick={() => setShowPrivateRoom(true)}>
+                                <span>Private Room</span>
+                            </button>
+
+                            <Link to="/game/solo?target=moving" className="menu-btn menu-btn-secondary">
+                                <span>Moving Targets</span>
+                            </Link>
+
+                            <Link to="/game/practice" className="menu-btn menu-btn-secondary">
+                                <span>Practice</span>
+                                <span className="menu-btn-badge">Offline</span>
+                            </Link>
+
+                            <Link to="/replay" className="menu-btn menu-btn-secondary">
+                                <span>Replays</span>
+                            </Link>
+
+                            {playerId && (
+                                <Link to={`/profile/${playerId}`} className="menu-btn menu-btn-secondary">
+                                    <span>Profile</span>
+                                </Link>
+                            )}
+
+                            <button className="menu-btn menu-btn-secondary" onClick={() => setShowSettings(true)}>
+                                <span>Settings</span>
+                            </button>
+                        </div>
+                    )}
 
                     <div className="menu-footer">
                         v1.0 · ARCHR
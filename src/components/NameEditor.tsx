@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { useSocketStore } from '../stores/useSocketStore';
+import { normalizeName, nameProblem, NAME_MAX_LENGTH } from '../game/playerName';
+import './MainMenu.css';
+
+/** The player's display name, with an inline form to change it. */
+const NameEditor: React.FC = () => {
+    const { playerName, nameError, setName, connected } = useSocketStore();
+    const [draft, setDraft] = useState<string | null>(null);   // null while not editing
+
+    if (!playerName) return null;
+
+    const candidate = normalizeName(draft ?? '');
+    const problem = draft !== null && candidate !== playerName ? nameProblem(candidate) : null;
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (problem) return;
+        setName(candidate);
+        setDraft(null);
+    };
+
+    if (draft === null) {
+        return (
+            <div className="menu-name">
+                <span className="menu-name-label">Playing as</span>
+                <span className="menu-name-value">{playerName}</span>
+                <button className="menu-name-edit" onClick={() => setDraft(playerName)} disabled={!connected}>
+                    Edit
+                </button>
+                {nameError && <div className="menu-name-error">{nameError}</div>}
+            </div>
+        );
+    }
+
+    return (
+        <form className="menu-name" onSubmit={handleSubmit}>
+            <div className="lb-submit-form">
+                <input
+                    className="lb-submit-input"
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Escape' && setDraft(null)}
+                    maxLength={NAME_MAX_LENGTH + 4}   // room for stray spaces that normalizing drops
+                    autoComplete="off"
+                    spellCheck={false}
+                    autoFocus
+                />
+                <button className="lb-submit-btn" type="submit" disabled={problem !== null || !connected}>
+                    Save
+                </button>
+                <button className="lb-submit-btn menu-private-watch" type="button" onClick={() => setDraft(null)}>
+                    Cancel
+                </button>
+            </div>
+            {problem && <div className="menu-name-error">{problem}</div>}
+        </form>
+    );
+};
+
+export default NameEditor;
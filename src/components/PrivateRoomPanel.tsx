@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useSocketStore } from '../stores/useSocketStore';
+import { validatedOrFail, isCreateRoomResponse, ACK_TIMEOUT_MS } from '../socket/validation';
+import { normalizeRoomCode, isValidRoomCode, ROOM_CODE_LENGTH } from '../game/roomCode';
+import './MainMenu.css';
+
+interface PrivateRoomPanelProps {
+    onClose: () => void;
+}
+
+/** Create a private room or join one by code (both end up on /game/multiplayer/:code), or watch one. */
+const PrivateRoomPanel: React.FC<PrivateRoomPanelProps> = ({ onClose }) => {
+    const navigate = useNavigate();
+    const { socket } = useSocketStore();
+    const [code, setCode] = useState('');
+    const [creating, setCreating] = useState(false);
+    const [createError, setCreateError] = useState<string | null>(null);
+
+    const handleCreate = () => {
+        if (!socket) return;
+        setCreating(true);
+        setCreateError(null);
+        socket.timeout(ACK_TIMEOUT_MS).emit('createRoom', validatedOrFail('createRoom', isCreateRoomResponse, (response) => {
+            setCreating(false);
+            navigate(`/game/multiplayer/${response.code}`);
+        }, () => {
+            setCreating(false);
+            setCreateError('Could not create a room. Try again.');
+        }));
+    };
+
+    const handleJoin = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!isValidRoomCode(code)) return;
+        navigate(`/game/multiplayer/${normalizeRoomCode(code)}`);
+    };
+
+    const handleWatch = () => {
+        if (!isValidRoomCode(code)) return;
+        navigate(`/spectate/${normalizeRoomCode(code)}`);
+    };
+
+    return (
+        <div className="menu-private">
+            <button className="menu-btn menu-btn-primary" onClick={handleCreate} disabled={creating}>
+                <span>{creating ? 'Creating…' : 'Create Room'}</span>
+            </button>
+            {createError && <div className="menu-private-error">{createError}</div>}
+
+            <div className="menu-private-divider">or join with a code</div>
+
+            <form className="lb-submit-form" onSubmit={handleJoin}>
+                <input
+                    className="lb-submit-input menu-private-input"
+                    value={code}
+                    onChange={(e) => setCode(normalizeRoomCode(e.target.value))}
+                    placeholder={'•'.repeat(ROOM_CODE_LENGTH)}
+                    maxLength={ROOM_CODE_LENGTH}
+                    autoCapitalize="characters"
+                    autoComplete="off"
+                    spellCheck={false}
+                />
+                <button className="lb-submit-btn" type="submit" disabled={!isValidRoomCode(code)}>
+                    Join
+                </button>
+                <button className="lb-submit-btn menu-private-watch" type="button" onClick={handleWatch} disabled={!isValidRoomCode(code)}>
+                    Watch
+                </button>
+            </form>
+
+            <button className="lb-back-btn" onClick={onClose}>
+                Back
+            </button>
+        </div>
+    );
+};
+
+export default PrivateRoomPanel;
@@ -0,0 +1,254 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useSocketStore } from '../stores/useSocketStore';
+import { useAchievementStore } from '../stores/useAchievementStore';
+import { validatedOrFail, isProfileResponse, ACK_TIMEOUT_MS } from '../socket/validation';
+import { averagePerShot, bullseyeRate, cacheProfile, heatmapCells, loadCachedProfile } from '../game/profile';
+import { FACES, FACE_RADIUS, DEFAULT_FACE } from '../game/faces';
+import { ACHIEVEMENTS } from '../game/achievements';
+import RankBadge from './RankBadge';
+import type { PlayerProfile, ProfileGame } from '../types';
+import './ProfilePage.css';
+
+// Hits beyond the face are clamped onto this edge, like the results screen plot
+const HEAT_VIEW = FACE_RADIUS + 12;
+const HEAT_CELL = 12;   // board units per heatmap square
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 120;
+
+/** Every game's score in order played; solo and multiplayer in their own colours. */
+const ScoreChart: React.FC<{ games: ProfileGame[] }> = ({ games }) => {
+    if (games.length < 2) return <div className="profile-empty">Play a few more games to see a trend.</div>;
+
+    const best = Math.max(1, ...games.map(g => g.score));
+    const x = (i: number) => (i / (games.length - 1)) * CHART_WIDTH;
+    const y = (score: number) => CHART_HEIGHT - (score / best) * CHART_HEIGHT;
+    const line = games.map((g, i) => `${x(i).toFixed(1)},${y(g.score).toFixed(1)}`).join(' ');
+
+    return (
+        <svg className="profile-chart" viewBox={`-4 -8 ${CHART_WIDTH + 8} ${CHART_HEIGHT + 16}`}>
+            <line className="profile-chart-axis" x1={0} y1={CHART_HEIGHT} x2={CHART_WIDTH} y2={CHART_HEIGHT} />
+            <polyline className="profile-chart-line" points={line} />
+            {games.map((g, i) => (
+                <circle
+                    key={i}
+                    className={`profile-chart-dot profile-chart-dot--${g.mode}`}
+                    cx={x(i)} cy={y(g.score)} r={2.5}
+                >
+                    <title>{`${g.score} · ${new Date(g.date).toLocaleDateString()}`}</title>
+                </circle>
+            ))}
+            <text className="profile-chart-label" x={2} y={-1}>{best}</text>
+        </svg>
+    );
+};
+
+/** Where every arrow landed, binned over the standard face; hotter squares took more arrows. */
+const HitHeatmap: React.FC<{ profile: PlayerProfile }> = ({ profile }) => {
+    const clamped = profile.hits.map(({ x, y }) => {
+        const dist = Math.hypot(x, y);
+        return dist <= HEAT_VIEW ? { x, y } : { x: (x / dist) * HEAT_VIEW, y: (y / dist) * HEAT_VIEW };
+    });
+    const cells = heatmapCells(clamped, HEAT_CELL);
+    const peak = Math.max(1, ...cells.map(c => c.count));
+    const face = FACES[DEFAULT_FACE];
+    const view = HEAT_VIEW + 8;
+
+    return (
+        <svg className="profile-heatmap" viewBox={`${-view} ${-view} ${view * 2} ${view * 2}`}>
+            {face.zones.map((zone, z) => (
+                <g key={z}>
+                    {zone.rings.map(ring => (
+                        <circle key={ring.score} cx={zone.x} cy={zone.y} r={ring.r} fill={ring.fill} opacity={0.35} stroke="rgba(0, 0, 0, 0.3)" strokeWidth="0.6" />
+                    ))}
+                </g>
+            ))}
+            {cells.map(cell => {
+                const heat = cell.count / peak;
+                return (
+                    <rect
+                        key={`${cell.x},${cell.y}`}
+                        x={cell.x} y={cell.y} width={HEAT_CELL} height={HEAT_CELL}
+                        fill={`hsl(${Math.round(50 - heat * 50)}, 95%, 55%)`}
+                        opacity={0.25 + heat * 0.65}
+                    >
+                        <title>{`${cell.count} arrow${cell.count === 1 ? '' : 's'}`}</title>
+                    </rect>
+                );
+            })}
+        </svg>
+    );
+};
+
+/** Every achievement, lit when unlocked; counted ones show how far along they are. */
+const Badges: React.FC<{ unlocked: Set<string>; gamesPlayed: number }> = ({ unlocked, gamesPlayed }) => (
+    <div className="profile-badges">
+        {ACHIEVEMENTS.map(achievement => {
+            const earned = unlocked.has(achievement.id);
+            return (
+                <div
+                    key={achievement.id}
+                    className={`profile-badge ${earned ? 'profile-badge--earned' : ''}`}
+                    title={achievement.description}
+                >
+                    <span className="profile-badge-icon">{achievement.icon}</span>
+                    <span className="profile-badge-name">{achievement.name}</span>
+                    {!earned && achievement.goal && (
+                        <span className="profile-badge-progress">{Math.min(gamesPlayed, achievement.goal)} / {achievement.goal}</span>
+                    )}
+                </div>
+            );
+        })}
+    </div>
+);
+
+const Stat: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+    <div className="profile-stat">
+        <div className="profile-stat-value">{value}</div>
+        <div className="profile-stat-label">{label}</div>
+    </div>
+);
+
+type ProfileStatus = 'loading' | 'live' | 'cached' | 'missing';
+
+/** One player's lifetime record: fresh from the server when connected, from the offline cache otherwise. */
+const ProfileView: React.FC<{ userId: string }> = ({ userId }) => {
+    const { socket, connected, playerId } = useSocketStore();
+    const { progress } = useAchievementStore();
+    const [profile, setProfile] = useState<PlayerProfile | null>(null);
+    const [status, setStatus] = useState<ProfileStatus>('loading');
+
+    useEffect(() => {
+        let cancelled = false;
+        let answered = false;   // the server's copy beats a slower cache read
+
+        loadCachedProfile(userId).then(cached => {
+            if (cancelled || answered) return;
+            if (cached) {
+                setProfile(cached);
+                setStatus('cached');
+            } else if (!connected) {
+                setStatus('missing');
+            }
+        });
+
+        if (socket && connected) {
+            // No answer (or a bad one) leaves whatever the cache had, or nothing to show
+            const unanswered = () => {
+                if (cancelled) return;
+                setStatus(current => current === 'cached' ? current : 'missing');
+            };
+            socket.timeout(ACK_TIMEOUT_MS).emit('getProfile', { userId }, validatedOrFail('getProfile', isProfileResponse, (response) => {
+                if (cancelled) return;
+                if (!response.ok || !response.profile) {
+                    unanswered();
+                    return;
+                }
+                answered = true;
+                setProfile(response.profile);
+                setStatus('live');
+                cacheProfile(response.profile);
+            }, unanswered));
+        }
+
+        return () => { cancelled = true; };
+    }, [userId, socket, connected]);
+
+    const isMe = userId === playerId;
+
+    if (!profile) {
+        return (
+            <div className="profile-page">
+                <div className="profile-card profile-card--message">
+                    <div className="profile-title">{isMe ? 'Your Profile' : 'Profile'}</div>
+                    <div className="profile-empty">
+                        {status === 'loading' ? 'Loading…' : connected
+                            ? 'No games on record yet.'
+                            : 'Not available offline. Open it once while connected to keep a copy.'}
+                    </div>
+                    <Link to="/" className="profile-back">Back to Menu</Link>
+                </div>
+            </div>
+        );
+    }
+
+    const decided = profile.wins + profile.losses + profile.draws;
+
+    // Our own badges include any this device unlocked before the server heard about them
+    const local = isMe ? progress[userId] : undefined;
+    const unlocked = new Set([...(profile.achievements ?? []), ...Object.keys(local?.unlocked ?? {})]);
+    const gamesPlayed = Math.max(profile.gamesPlayed, local?.gamesPlayed ?? 0);
+
+    return (
+        <div className="profile-page">
+            <div className="profile-card">
+                <div className="profile-header">
+                    <div>
+                        <div className="profile-title">
+                            {profile.name}
+                            <RankBadge rating={profile.rating} showRating />
+                        </div>
+                        <div className="profile-subtitle">{isMe ? 'Your lifetime record' : 'Lifetime record'}</div>
+                    </div>
+                    {status === 'cached' && (
+                        <span className="profile-offline" title="Shown from this device's copy">
+                            Saved {new Date(profile.updatedAt).toLocaleDateString(undefined, { dateStyle: 'medium' })}
+                        </span>
+                    )}
+                </div>
+
+                <div className="profile-stats">
+                    <Stat label="Games" value={profile.gamesPlayed} />
+                    <Stat label="Best Solo" value={profile.bestSoloScore} />
+                    <Stat label="Per Shot" value={averagePerShot(profile).toFixed(2)} />
+                    <Stat label="Bullseyes" value={`${Math.round(bullseyeRate(profile) * 100)}%`} />
+                    <Stat
+                        label="W – L – D"
+                        value={decided > 0 ? `${profile.wins}–${profile.losses}–${profile.draws}` : '–'}
+                    />
+                </div>
+
+                <div className="profile-section">
+                    <div className="profile-section-title">
+                        Badges
+                        <span className="profile-legend">{unlocked.size} / {ACHIEVEMENTS.length}</span>
+                    </div>
+                    <Badges unlocked={unlocked} gamesPlayed={gamesPlayed} />
+                </div>
+
+                <div className="profile-section">
+                    <div className="profile-section-title">
+                        Score Over Time
+                        <span className="profile-legend">
+                            <i className="profile-legend-dot profile-legend-dot--solo" /> Solo
+                            <i className="profile-legend-dot profile-legend-dot--multiplayer" /> Multiplayer
+                        </span>
+                    </div>
+                    <ScoreChart games={profile.games} />
+                </div>
+
+                <div className="profile-section">
+                    <div className="profile-section-title">
+                        Every Arrow
+                        <span className="profile-legend">{profile.hits.length} hits</span>
+                    </div>
+                    {profile.hits.length > 0
+                        ? <HitHeatmap profile={profile} />
+                        : <div className="profile-empty">No arrows on record yet.</div>}
+                </div>
+
+                <Link to="/" className="profile-back">Back to Menu</Link>
+            </div>
+        </div>
+    );
+};
+
+/** /profile/:userId — remounts per player so one profile never flashes while another loads. */
+const ProfilePage: React.FC = () => {
+    const { userId } = useParams<{ userId: string }>();
+    if (!userId) return null;
+    return <ProfileView key={userId} userId={userId} />;
+};
+
+export default ProfilePage;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { rankFor } from '../game/rating';
+import './RankBadge.css';
+
+interface RankBadgeProps {
+    rating: number | undefined;
+    showRating?: boolean;   // the number after the tier name, not just in the tooltip
+}
+
+/** Rank tier pill shown next to a name; nothing for players without a rating. */
+const RankBadge: React.FC<RankBadgeProps> = ({ rating, showRating = false }) => {
+    if (rating === undefined) return null;
+    const tier = rankFor(rating);
+    return (
+        <span
+            className="rank-badge"
+            style={{ '--rank-color': tier.color } as React.CSSProperties}
+            title={`${tier.name} · ${rating}`}
+        >
+            {tier.name}
+            {showRating && <span className="rank-badge-rating">{rating}</span>}
+        </span>
+    );
+};
+
+export default RankBadge;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { useMatch, useNavigate } from 'react-router-dom';
+import { useSocketStore } from '../stores/useSocketStore';
+import './Reconnecting.css';
+
+/** In-game overlay shown while the socket is retrying, so the match stays mounted underneath. */
+const Reconnecting: React.FC = () => {
+    const navigate = useNavigate();
+    const { reconnecting, resumeFailed, dismissResumeFailed, setRoom } = useSocketStore();
+    const isPractice = useMatch('/game/practice') !== null;
+    const isReplay = useMatch('/replay/*') !== null;
+    const isProfile = useMatch('/profile/*') !== null;
+
+    // Practice and replays are offline anyway, and profiles fall back to their
+    // cached copy — a dropped socket doesn't interrupt them
+    if (isPractice || isReplay || isProfile || (!reconnecting && !resumeFailed)) return null;
+
+    const handleBackToMenu = () => {
+        dismissResumeFailed();
+        setRoom(null);
+        navigate('/');
+    };
+
+    return (
+        <div className="reconnecting-overlay">
+            <div className="reconnecting-card">
+                {reconnecting ? (
+                    <>
+                        <div className="reconnecting-spinner" />
+                        <div className="reconnecting-title">Connection Lost</div>
+                        <div className="reconnecting-status">
+                            Reconnecting
+                            <span>.</span>
+                            <span>.</span>
+                            <span>.</span>
+                        </div>
+                    </>
+                ) : (
+                    <>
+                        <div className="reconnecting-title">Match Ended</div>
+                        <div className="reconnecting-message">
+                            Your match could not be resumed.
+                        </div>
+                        <button className="reconnecting-btn" onClick={handleBackToMenu}>
+                            Back to Menu
+                        </button>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default Reconnecting;
@@ -0,0 +1,90 @@
+import React, { useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { deleteReplay, exportReplay, importReplayFile, listReplays, saveReplay } from '../game/replay';
+import type { Replay } from '../types';
+import './ReplayPage.css';
+
+const MODE_LABELS: Record<Replay['mode'], string> = {
+    solo: 'Solo',
+    multiplayer: 'Multiplayer',
+    practice: 'Practice',
+};
+
+// Final score of the recording player, from the last recorded room state
+const finalScore = (replay: Replay) => {
+    for (let i = replay.events.length - 1; i >= 0; i--) {
+        const event = replay.events[i];
+        if (event.type === 'gameState') {
+            return event.payload.players.find(p => p.userId === replay.playerId)?.score ?? 0;
+        }
+    }
+    return 0;
+};
+
+/** Saved replays, with import from and export to JSON files. */
+const ReplayLibrary: React.FC = () => {
+    const navigate = useNavigate();
+    const fileInput = useRef<HTMLInputElement>(null);
+    const [replays, setReplays] = useState<Replay[]>(listReplays);
+    const [importError, setImportError] = useState<string | null>(null);
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        const replay = await importReplayFile(file);
+        if (!replay) {
+            setImportError('That file is not an ARCHR replay.');
+            return;
+        }
+        setImportError(null);
+        saveReplay(replay);
+        navigate(`/replay/${replay.id}`);
+    };
+
+    const handleDelete = (id: string) => {
+        deleteReplay(id);
+        setReplays(listReplays());
+    };
+
+    return (
+        <div className="replay-library">
+            <div className="replay-library-card">
+                <div className="replay-library-header">
+                    <div className="replay-library-title">Replays</div>
+                    <button className="replay-btn" onClick={() => fileInput.current?.click()}>
+                        Import
+                    </button>
+                    <input ref={fileInput} type="file" accept="application/json,.json" hidden onChange={handleImport} />
+                </div>
+
+                {importError && <div className="replay-library-error">{importError}</div>}
+
+                {replays.length === 0 ? (
+                    <div className="replay-library-empty">Finished matches are saved here automatically.</div>
+                ) : (
+                    <div className="replay-library-list">
+                        {replays.map(replay => (
+                            <div key={replay.id} className="replay-library-entry">
+                                <Link to={`/replay/${replay.id}`} className="replay-library-info">
+                                    <span className="replay-library-mode">{MODE_LABELS[replay.mode]}</span>
+                                    <span className="replay-library-date">
+                                        {new Date(replay.recordedAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+                                    </span>
+                                </Link>
+                                <span className="replay-library-score">{finalScore(replay)}</span>
+                                <button className="replay-action" onClick={() => exportReplay(replay)}>Export</button>
+                                <button className="replay-action replay-action--danger" onClick={() => handleDelete(replay.id)}>Delete</button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <Link to="/" className="replay-library-back">Back to Menu</Link>
+            </div>
+        </div>
+    );
+};
+
+export default ReplayLibrary;
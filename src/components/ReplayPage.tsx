@@ -0,0 +1,141 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import GameCanvas from './GameCanvas';
+import GameUI from './GameUI';
+import { createReplayChannel, exportReplay, loadReplay } from '../game/replay';
+import { resolveTheme } from '../game/themes';
+import { useSettingsStore } from '../stores/useSettingsStore';
+import type { Room } from '../types';
+import './ReplayPage.css';
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+// How often the scrubber follows playback
+const PROGRESS_INTERVAL = 100;
+
+const formatTime = (ms: number) => {
+    const total = Math.floor(ms / 1000);
+    return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+/** Plays a recorded match back through the regular canvas and HUD. */
+const ReplayPage: React.FC = () => {
+    const { id } = useParams<{ id: string }>();
+    const navigate = useNavigate();
+    const { theme: themePreference } = useSettingsStore();
+
+    const replay = useMemo(() => id ? loadReplay(id) : null, [id]);
+    const channel = useMemo(() => replay ? createReplayChannel(replay) : null, [replay]);
+
+    const [room, setRoom] = useState<Room | null>(null);
+    const [position, setPosition] = useState(0);
+    const [playing, setPlaying] = useState(false);
+    const [speed, setSpeed] = useState(1);
+    // Bumped on seek so the engine drops arrows and animations from the old position
+    const [generation, setGeneration] = useState(0);
+
+    useEffect(() => {
+        if (!channel) return;
+
+        const sync = () => {
+            setPosition(channel.position());
+            setPlaying(channel.isPlaying());
+        };
+
+        const unsubscribe = channel.on('gameState', setRoom);
+        const interval = setInterval(sync, PROGRESS_INTERVAL);
+        channel.seek(0);
+        channel.play();
+
+        return () => {
+            unsubscribe();
+            clearInterval(interval);
+            channel.dispose();
+        };
+    }, [channel]);
+
+    if (!replay || !channel) {
+        return (
+            <div className="replay-missing">
+                <div className="replay-missing-card">
+                    <div className="replay-missing-title">Replay Not Found</div>
+                    <div className="replay-missing-message">
+                        It may have been deleted, or recorded on another device.
+                    </div>
+                    <Link to="/replay" className="replay-btn">Browse Replays</Link>
+                </div>
+            </div>
+        );
+    }
+
+    const handleTogglePlay = () => {
+        if (channel.isPlaying()) channel.pause();
+        else channel.play();
+        setPlaying(channel.isPlaying());
+    };
+
+    const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
+        channel.seek(Number(e.target.value));
+        setPosition(channel.position());
+        setGeneration(g => g + 1);
+    };
+
+    const handleSpeed = (next: number) => {
+        channel.setSpeed(next);
+        setSpeed(next);
+    };
+
+    return (
+        <>
+            <GameCanvas
+                room={room}
+                playerId={replay.playerId}
+                channel={channel}
+                inputEnabled={false}
+                resetKey={generation}
+                // Same room as the live match, so a random pick comes out the same
+                theme={resolveTheme(themePreference, room)}
+                onExit={() => navigate('/replay')}
+            />
+            <GameUI room={room} playerId={replay.playerId} />
+
+            <div className="replay-bar">
+                <button className="replay-play" onClick={handleTogglePlay} aria-label={playing ? 'Pause' : 'Play'}>
+                    {playing ? (
+                        <svg viewBox="0 0 24 24" fill="currentColor"><rect x="6" y="5" width="4" height="14" rx="1" /><rect x="14" y="5" width="4" height="14" rx="1" /></svg>
+                    ) : (
+                        <svg viewBox="0 0 24 24" fill="currentColor"><path d="M8 5.5v13a1 1 0 0 0 1.5.86l10.5-6.5a1 1 0 0 0 0-1.72L9.5 4.64A1 1 0 0 0 8 5.5z" /></svg>
+                    )}
+                </button>
+
+                <input
+                    className="replay-scrubber"
+                    type="range"
+                    min={0}
+                    max={channel.duration}
+                    step={100}
+                    value={position}
+                    onChange={handleSeek}
+                />
+                <span className="replay-time">{formatTime(position)} / {formatTime(channel.duration)}</span>
+
+                <div className="replay-speeds">
+                    {SPEEDS.map(s => (
+                        <button
+                            key={s}
+                            className={`replay-speed ${s === speed ? 'replay-speed--active' : ''}`}
+                            onClick={() => handleSpeed(s)}
+                        >
+                            {s}×
+                        </button>
+                    ))}
+                </div>
+
+                <button className="replay-action" onClick={() => exportReplay(replay)}>Export</button>
+                <Link to="/replay" className="replay-action">Exit</Link>
+            </div>
+        </>
+    );
+};
+
+export default ReplayPage;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { useSettingsStore } from '../stores/useSettingsStore';
+import { THEMES, THEME_IDS } from '../game/themes';
+import { FACES, FACE_IDS, FACE_RADIUS, type TargetFace } from '../game/faces';
+import './MainMenu.css';
+
+interface SettingsPanelProps {
+    onClose: () => void;
+}
+
+/** A face's zones in miniature, on its backing. */
+const FaceSwatch: React.FC<{ face: TargetFace }> = ({ face }) => (
+    <svg className="menu-settings-swatch menu-settings-swatch-face" viewBox={`${-FACE_RADIUS - 10} ${-FACE_RADIUS - 10} ${FACE_RADIUS * 2 + 20} ${FACE_RADIUS * 2 + 20}`}>
+        <rect x={-FACE_RADIUS - 10} y={-FACE_RADIUS - 10} width={FACE_RADIUS * 2 + 20} height={FACE_RADIUS * 2 + 20} fill={face.paper} />
+        {face.zones.map((zone, z) => zone.rings.map(ring => (
+            <circle key={`${z}-${ring.score}`} cx={zone.x} cy={zone.y} r={ring.r} fill={ring.fill} />
+        )))}
+    </svg>
+);
+
+/** Environment and target face pickers: a fixed theme, or a different one each match. */
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose }) => {
+    const { theme, setTheme, face, setFace } = useSettingsStore();
+
+    return (
+        <div className="menu-settings">
+            <div className="menu-private-divider">Environment</div>
+
+            <div className="menu-settings-themes">
+                {THEME_IDS.map(id => {
+                    const { palette, name } = THEMES[id];
+                    return (
+                        <button
+                            key={id}
+                            className={`menu-settings-theme ${theme === id ? 'menu-settings-theme-active' : ''}`}
+                            onClick={() => setTheme(id)}
+                        >
+                            <span
+                                className="menu-settings-swatch"
+                                style={{ background: `linear-gradient(${palette.sky[0]}, ${palette.sky[1]} 55%, ${palette.ground[0]} 55%, ${palette.ground[1]})` }}
+                            />
+                            <span>{name}</span>
+                        </button>
+                    );
+                })}
+                <button
+                    className={`menu-settings-theme ${theme === 'random' ? 'menu-settings-theme-active' : ''}`}
+                    onClick={() => setTheme('random')}
+                >
+                    <span className="menu-settings-swatch menu-settings-swatch-random">?</span>
+                    <span>Random each match</span>
+                </button>
+            </div>
+
+            <div className="menu-private-divider">Target Face</div>
+
+            <div className="menu-settings-faces">
+                {FACE_IDS.map(id => (
+                    <button
+                        key={id}
+                        className={`menu-settings-theme ${face === id ? 'menu-settings-theme-active' : ''}`}
+                        onClick={() => setFace(id)}
+                    >
+                        <FaceSwatch face={FACES[id]} />
+                        <span>{FACES[id].name}</span>
+                    </button>
+                ))}
+            </div>
+
+            <button className="lb-back-btn" onClick={onClose}>
+                Back
+            </button>
+        </div>
+    );
+};
+
+export default SettingsPanel;
@@ -3,6 +3,11 @@
  * Returns a PNG Blob suitable for Web Share API or download.
  */
 import type { Room } from '../types';
+import { rankPlayers, displayName, ordinal } from '../game/standings';
+import { seatColor } from '../game/palettes';
+import { roomFace } from '../game/faces';
+import { formatDailyDate } from '../game/daily';
+import type { Achievement } from '../game/achievements';
 
 // ── Rating tiers (mirrors GameOver.tsx) ──
 type RatingTier = {
@@ -11,12 +16,13 @@ type RatingTier = {
     subtitle: string;
 };
 
-function getRating(avg: number): RatingTier {
-    if (avg >= 9.5) return { text: 'PERFECT', color: '#c9a84c', subtitle: 'Legendary accuracy' };
-    if (avg >= 8)  return { text: 'EXCELLENT', color: '#6ee7b7', subtitle: 'Sharp shooting' };
-    if (avg >= 6)  return { text: 'GREAT', color: '#7dd3fc', subtitle: 'Well done' };
-    if (avg >= 4)  return { text: 'GOOD', color: '#a78bfa', subtitle: 'Solid effort' };
-    if (avg >= 2)  return { text: 'OK', color: '#94a3b8', subtitle: 'Keep practicing' };
+/** Rating for the average arrow as a fraction of the face's best score. */
+function getRating(accuracy: number): RatingTier {
+    if (accuracy >= 0.95) return { text: 'PERFECT', color: '#c9a84c', subtitle: 'Legendary accuracy' };
+    if (accuracy >= 0.8)  return { text: 'EXCELLENT', color: '#6ee7b7', subtitle: 'Sharp shooting' };
+    if (accuracy >= 0.6)  return { text: 'GREAT', color: '#7dd3fc', subtitle: 'Well done' };
+    if (accuracy >= 0.4)  return { text: 'GOOD', color: '#a78bfa', subtitle: 'Solid effort' };
+    if (accuracy >= 0.2)  return { text: 'OK', color: '#94a3b8', subtitle: 'Keep practicing' };
     return { text: 'ROUGH', color: '#f87171', subtitle: 'Try again' };
 }
 
@@ -200,13 +206,52 @@ function drawStat(
     ctx.shadowBlur = 0;
 }
 
+/** A stat's height from its label baseline to the bottom of its value. */
+const STAT_HEIGHT = 44;
+
+// The badge row sits under whatever the card drew above it, but no lower than the footer allows
+const BADGES_Y = 760;
+const BADGES_MAX_Y = 790;
+const BADGES_CLEARANCE = 68;   // from the content above to the row's center: its label plus a gap
+
+/** Draw the player's badges as a centered row of medallions */
+function drawBadges(ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D, cx: number, y: number, badges: Achievement[]) {
+    const r = 17;
+    const gap = 44;
+    const startX = cx - ((badges.length - 1) * gap) / 2;
+
+    ctx.font = '600 9px "DM Sans", system-ui, sans-serif';
+    ctx.letterSpacing = '4px';
+    ctx.fillStyle = 'rgba(240, 236, 228, 0.2)';
+    ctx.textAlign = 'center';
+    ctx.fillText('BADGES', cx + 2, y - r - 12);
+    ctx.letterSpacing = '0px';
+
+    badges.forEach((badge, i) => {
+        const x = startX + gap * i;
+        ctx.beginPath();
+        ctx.arc(x, y, r, 0, Math.PI * 2);
+        ctx.fillStyle = 'rgba(201, 168, 76, 0.08)';
+        ctx.fill();
+        ctx.strokeStyle = 'rgba(201, 168, 76, 0.3)';
+        ctx.lineWidth = 1;
+        ctx.stroke();
+
+        ctx.font = '18px system-ui, sans-serif';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(badge.icon, x, y + 1);
+        ctx.textBaseline = 'alphabetic';
+    });
+}
+
 // ── Main generator ──
-export async function generateShareCard(room: Room, playerId: string | undefined): Promise<Blob> {
+export async function generateShareCard(room: Room, playerId: string | undefined, badges: Achievement[] = []): Promise<Blob> {
     const W = 600;
     const H = 900;
     const canvas = new OffscreenCanvas(W, H);
     const ctx = canvas.getContext('2d')!;
     const cx = W / 2;
+    let contentBottom = 0;   // lowest thing drawn by the card's body, so the badges go under it
 
     // ═══════════════════════════════════════════
     // 1. BACKGROUND — deep dark with atmosphere
@@ -226,10 +271,10 @@ export async function generateShareCard(room: Room, playerId: string | undefined
     const myScore = me?.score || 0;
     let accentColor = '#c9a84c'; // default gold
 
-    if (room.mode === 'solo') {
+    if (room.mode !== 'multiplayer') {
         const shotsCount = Math.max(1, room.round - 1);
         const avgPerShot = myScore / shotsCount;
-        const rating = getRating(avgPerShot);
+        const rating = getRating(avgPerShot / roomFace(room).maxScore);
         accentColor = rating.color;
     }
 
@@ -302,14 +347,14 @@ export async function generateShareCard(room: Room, playerId: string | undefined
     // Thin line below brand
     drawGoldLine(ctx, cx, 94, 80, 0.2);
 
-    if (room.mode === 'solo') {
+    if (room.mode !== 'multiplayer') {
         // ═══════════════════════════════════════════
         // SOLO MODE CARD
         // ═══════════════════════════════════════════
         const shotsCount = Math.max(1, room.round - 1);
         const avgPerShot = myScore / shotsCount;
-        const accuracyPct = Math.min(1, avgPerShot / 10);
-        const rating = getRating(avgPerShot);
+        const accuracyPct = Math.min(1, avgPerShot / roomFace(room).maxScore);
+        const rating = getRating(accuracyPct);
         const [rr, rg, rb] = hexToRgb(rating.color);
 
         // Sub-label
@@ -317,7 +362,10 @@ export async function generateShareCard(room: Room, playerId: string | undefined
         ctx.letterSpacing = '5px';
         ctx.fillStyle = 'rgba(240, 236, 228, 0.2)';
         ctx.textAlign = 'center';
-        ctx.fillText("TIME'S UP", cx, 140);
+        const runLabel = room.daily
+            ? `DAILY CHALLENGE · ${formatDailyDate(room.daily.date).toUpperCase()}`
+            : room.mode === 'practice' ? 'PRACTICE' : "TIME'S UP";
+        ctx.fillText(runLabel, cx, 140);
         ctx.letterSpacing = '0px';
 
         // Rating title with glow
@@ -420,6 +468,100 @@ export async function generateShareCard(room: Room, playerId: string | undefined
         ctx.lineTo(-26, 5);
         ctx.stroke();
         ctx.restore();
+        contentBottom = arrowY + 5;
+
+    } else if (room.players.length > 2) {
+        // ═══════════════════════════════════════════
+        // GROUP MATCH CARD — ranked standings
+        // ═══════════════════════════════════════════
+        const standings = rankPlayers(room.players);
+        const myRank = standings.find(s => s.player.userId === playerId)?.rank ?? standings.length;
+        const sharedFirst = myRank === 1 && standings.filter(s => s.rank === 1).length > 1;
+        const isWin = myRank === 1 && !sharedFirst;
+
+        const resultText = isWin ? 'VICTORY' : sharedFirst ? 'DRAW' : `${ordinal(myRank).toUpperCase()} PLACE`;
+        const resultColor = isWin ? '#c9a84c' : myRank <= 3 ? '#f0ece4' : '#94a3b8';
+        const subtitle = isWin ? 'Champion archer' : sharedFirst ? 'Shared first place' : `Out of ${standings.length} archers`;
+
+        // Sub-label
+        ctx.font = '600 10px "DM Sans", system-ui, sans-serif';
+        ctx.letterSpacing = '5px';
+        ctx.fillStyle = 'rgba(240, 236, 228, 0.2)';
+        ctx.textAlign = 'center';
+        ctx.fillText('GAME OVER', cx, 140);
+        ctx.letterSpacing = '0px';
+
+        // Result title with glow
+        ctx.font = '900 56px "Playfair Display", Georgia, serif';
+        ctx.fillStyle = resultColor;
+        ctx.shadowColor = resultColor;
+        ctx.shadowBlur = isWin ? 50 : 25;
+        ctx.fillText(resultText, cx, 200);
+        ctx.shadowBlur = 0;
+
+        // Subtitle
+        ctx.font = 'italic 400 15px "Playfair Display", Georgia, serif';
+        ctx.fillStyle = 'rgba(240, 236, 228, 0.3)';
+        ctx.fillText(subtitle, cx, 232);
+
+        drawGoldLine(ctx, cx, 256, 100, 0.15);
+
+        // ── Standings Panel ──
+        // Rows tighten for big groups, so the badge row still fits under the ROUNDS stat
+        const tableY = 284;
+        const tableRoom = BADGES_MAX_Y - BADGES_CLEARANCE - STAT_HEIGHT - 40 - tableY - 16;
+        const rowH = Math.min(52, Math.floor(tableRoom / standings.length));
+        const tableH = standings.length * rowH + 16;
+        drawRoundedRect(ctx, 70, tableY, W - 140, tableH, 16);
+        ctx.fillStyle = 'rgba(201, 168, 76, 0.02)';
+        ctx.fill();
+        ctx.strokeStyle = 'rgba(201, 168, 76, 0.06)';
+        ctx.lineWidth = 0.5;
+        ctx.stroke();
+
+        ctx.textBaseline = 'middle';
+        standings.forEach(({ player, seat, rank }, i) => {
+            const rowCY = tableY + 8 + i * rowH + rowH / 2;
+            const isMe = player.userId === playerId;
+
+            if (isMe) {
+                drawRoundedRect(ctx, 80, rowCY - rowH / 2 + 4, W - 160, rowH - 8, 10);
+                ctx.fillStyle = 'rgba(201, 168, 76, 0.07)';
+                ctx.fill();
+            }
+
+            // Rank
+            ctx.font = '900 22px "Playfair Display", Georgia, serif';
+            ctx.fillStyle = rank === 1 ? '#c9a84c' : 'rgba(240, 236, 228, 0.35)';
+            ctx.textAlign = 'center';
+            ctx.fillText(String(rank), 112, rowCY);
+
+            // Seat colour
+            ctx.fillStyle = seatColor(seat);
+            ctx.beginPath();
+            ctx.arc(148, rowCY, 5, 0, Math.PI * 2);
+            ctx.fill();
+
+            // Name
+            ctx.font = isMe ? '700 13px "DM Sans", system-ui, sans-serif' : '600 13px "DM Sans", system-ui, sans-serif';
+            ctx.letterSpacing = '2px';
+            ctx.fillStyle = isMe ? '#f0ece4' : 'rgba(240, 236, 228, 0.6)';
+            ctx.textAlign = 'left';
+            ctx.fillText((isMe ? 'YOU' : displayName(player, seat)).toUpperCase(), 168, rowCY);
+            ctx.letterSpacing = '0px';
+
+            // Score
+            ctx.font = '900 26px "Playfair Display", Georgia, serif';
+            ctx.fillStyle = rank === 1 ? '#c9a84c' : 'rgba(240, 236, 228, 0.5)';
+            ctx.textAlign = 'right';
+            ctx.fillText(String(player.score), W - 100, rowCY);
+        });
+        ctx.textBaseline = 'alphabetic';
+        ctx.textAlign = 'center';
+
+        const statY = tableY + tableH + 40;
+        drawStat(ctx, cx, statY, 'ROUNDS', String(room.maxRounds), false, '#c9a84c');
+        contentBottom = statY + STAT_HEIGHT;
 
     } else {
         // ═══════════════════════════════════════════
@@ -543,8 +685,12 @@ export async function generateShareCard(room: Room, playerId: string | undefined
         ctx.beginPath(); ctx.moveTo(14, -5); ctx.lineTo(20, 0); ctx.lineTo(14, 5); ctx.stroke();
         ctx.beginPath(); ctx.moveTo(-20, 0); ctx.lineTo(-26, -5); ctx.moveTo(-20, 0); ctx.lineTo(-26, 5); ctx.stroke();
         ctx.restore();
+        contentBottom = arrowY + 5;
     }
 
+    // Achievements the archer has unlocked so far
+    if (badges.length > 0) drawBadges(ctx, cx, Math.max(BADGES_Y, contentBottom + BADGES_CLEARANCE), badges);
+
     // ═══════════════════════════════════════════
     // 5. FOOTER
     // ═══════════════════════════════════════════
@@ -571,16 +717,21 @@ export async function generateShareCard(room: Room, playerId: string | undefined
 /**
  * Share or download the score card image.
  */
-export async function shareScoreCard(room: Room, playerId: string | undefined): Promise<void> {
-    const blob = await generateShareCard(room, playerId);
-    const file = new File([blob], 'archr-score.png', { type: 'image/png' });
+export async function shareScoreCard(room: Room, playerId: string | undefined, badges: Achievement[] = []): Promise<void> {
+    const blob = await generateShareCard(room, playerId, badges);
+    // Daily cards are named and captioned for their date, so a week of them doesn't collide
+    const filename = room.daily ? `archr-daily-${room.daily.date}.png` : 'archr-score.png';
+    const text = room.daily
+        ? `My ARCHR Daily Challenge for ${formatDailyDate(room.daily.date)} 🏹`
+        : 'Check out my score on ARCHR! 🏹';
+    const file = new File([blob], filename, { type: 'image/png' });
 
     // Try Web Share API first (mobile-friendly)
     if (navigator.share && navigator.canShare?.({ files: [file] })) {
         try {
             await navigator.share({
                 title: 'ARCHR Score',
-                text: 'Check out my score on ARCHR! 🏹',
+                text,
                 files: [file],
             });
             return;
@@ -594,7 +745,7 @@ export async function shareScoreCard(room: Room, playerId: string | undefined):
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'archr-score.png';
+    a.download = filename;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -0,0 +1,131 @@
+import React, { useMemo } from 'react';
+import type { Room } from '../types';
+import type { ShotRecord } from '../stores/useMatchStore';
+import { DEFAULT_TARGET_SCALE } from '../game/target';
+import { distanceSpec } from '../game/distance';
+import { FACE_RADIUS, roomFace, type TargetFace } from '../game/faces';
+import { seatColor } from '../game/palettes';
+import { displayName } from '../game/standings';
+
+interface ShotHistoryProps {
+    room: Room;
+    playerId: string | undefined;
+    shots: ShotRecord[];
+}
+
+// Misses are pinned just outside the face so they still show on the plot
+const MISS_RADIUS = FACE_RADIUS + 10;
+
+// Hits are in screen px at the scale the target was drawn at from that distance
+const toBoard = ({ hit, distance }: ShotRecord) => {
+    const scale = DEFAULT_TARGET_SCALE * distanceSpec(distance).scale;
+    const bx = hit.x / scale;
+    const by = hit.y / scale;
+    const dist = Math.sqrt(bx * bx + by * by);
+    if (dist <= MISS_RADIUS) return { x: bx, y: by };
+    return { x: (bx / dist) * MISS_RADIUS, y: (by / dist) * MISS_RADIUS };
+};
+
+const MiniTarget: React.FC<{ face: TargetFace; shots: ShotRecord[]; seatOf: (userId: string) => number; playerId: string | undefined }> = ({ face, shots, seatOf, playerId }) => {
+    const view = MISS_RADIUS + 8;
+    return (
+        <svg className="gameover-history-face" viewBox={`${-view} ${-view} ${view * 2} ${view * 2}`}>
+            {face.zones.map((zone, z) => (
+                <g key={z}>
+                    {zone.rings.map(ring => (
+                        <circle key={ring.score} cx={zone.x} cy={zone.y} r={ring.r} fill={ring.fill} stroke="rgba(0, 0, 0, 0.25)" strokeWidth="0.6" />
+                    ))}
+                    {zone.kind === 'rings' && face.xRing && (
+                        <circle cx={zone.x} cy={zone.y} r={face.xRing} fill="none" stroke="rgba(0, 0, 0, 0.35)" strokeWidth="0.6" />
+                    )}
+                </g>
+            ))}
+            {shots.map((shot, i) => {
+                const p = toBoard(shot);
+                const isMine = shot.player === playerId;
+                return (
+                    <circle
+                        key={i}
+                        cx={p.x} cy={p.y}
+                        r={isMine ? 6 : 4.5}
+                        fill={seatColor(seatOf(shot.player))}
+                        stroke={isMine ? '#f0ece4' : 'rgba(0, 0, 0, 0.6)'}
+                        strokeWidth={isMine ? 2 : 1}
+                    />
+                );
+            })}
+        </svg>
+    );
+};
+
+/** Round-by-round breakdown plus every hit plotted on a mini copy of the room's target face. */
+const ShotHistory: React.FC<ShotHistoryProps> = ({ room, playerId, shots }) => {
+    const seatOf = (userId: string) => Math.max(0, room.players.findIndex(p => p.userId === userId));
+    const isGroup = room.players.length > 1;
+
+    const rounds = useMemo(() => {
+        const byRound = new Map<number, ShotRecord[]>();
+        for (const shot of shots) {
+            const list = byRound.get(shot.round) ?? [];
+            list.push(shot);
+            byRound.set(shot.round, list);
+        }
+        return [...byRound.entries()].sort(([a], [b]) => a - b);
+    }, [shots]);
+
+    if (shots.length === 0) return null;
+
+    return (
+        <div className="gameover-history">
+            <MiniTarget face={roomFace(room)} shots={shots} seatOf={seatOf} playerId={playerId} />
+
+            <div className="gameover-history-table">
+                {isGroup ? (
+                    <>
+                        <div className="gameover-history-row gameover-history-row--head">
+                            <span>Rd</span>
+                            {room.players.map((p, seat) => (
+                                <span key={p.userId} title={displayName(p, seat)}>
+                                    <i className="gameover-history-dot" style={{ background: seatColor(seat) }} />
+                                    {p.userId === playerId ? 'You' : seat + 1}
+                                </span>
+                            ))}
+                        </div>
+                        {rounds.map(([round, list]) => (
+                            <div key={round} className="gameover-history-row">
+                                <span>{round}</span>
+                                {room.players.map(p => {
+                                    const own = list.filter(s => s.player === p.userId);
+                                    return (
+                                        <span key={p.userId} className={p.userId === playerId ? 'gameover-history-cell--me' : undefined}>
+                                            {own.length > 0 ? own.reduce((sum, s) => sum + s.score, 0) : '–'}
+                                        </span>
+                                    );
+                                })}
+                            </div>
+                        ))}
+                    </>
+                ) : (
+                    <>
+                        <div className="gameover-history-row gameover-history-row--head">
+                            <span>#</span>
+                            <span>Score</span>
+                            <span>Wind</span>
+                            <span>Aim</span>
+                        </div>
+                        {shots.map((shot, i) => (
+                            <div key={i} className="gameover-history-row">
+                                <span>{i + 1}</span>
+                                <span className="gameover-history-cell--me">{shot.score}</span>
+                                <span>{Math.hypot(shot.wind.x, shot.wind.y).toFixed(1)}</span>
+                                <span>{shot.aimDuration !== null ? `${(shot.aimDuration / 1000).toFixed(1)}s` : '–'}</span>
+                            </div>
+                        ))}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ShotHistory;
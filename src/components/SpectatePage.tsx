@@ -0,0 +1,91 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import GameCanvas from './GameCanvas';
+import GameUI from './GameUI';
+import GameOver from './GameOver';
+import { useSocketStore } from '../stores/useSocketStore';
+import { useSettingsStore } from '../stores/useSettingsStore';
+import { createSocketChannel } from '../game/channel';
+import { normalizeRoomCode } from '../game/roomCode';
+import { resolveTheme } from '../game/themes';
+import { validatedOrFail, isJoinRoomResponse, ACK_TIMEOUT_MS } from '../socket/validation';
+import type { Room } from '../types';
+import './Lobby.css';
+
+/** Watch a live match by its room code, read-only. */
+const SpectatePage: React.FC = () => {
+    const { code } = useParams<{ code: string }>();
+    const roomCode = normalizeRoomCode(code ?? '');
+    const navigate = useNavigate();
+    const { socket, connected, playerId } = useSocketStore();
+    const { theme: themePreference } = useSettingsStore();
+    const channel = useMemo(() => socket ? createSocketChannel(socket) : null, [socket]);
+
+    // Kept out of the socket store: that room is the one we'd resume as a player
+    const [room, setRoom] = useState<Room | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        // Re-runs after a reconnect, so the server picks the spectator back up
+        if (!socket || !channel || !connected) return;
+
+        let cancelled = false;
+        const unsubscribe = channel.on('gameState', setRoom);
+        socket.timeout(ACK_TIMEOUT_MS).emit('spectateRoom', { code: roomCode }, validatedOrFail('spectateRoom', isJoinRoomResponse, (response) => {
+            if (!cancelled) setError(response.ok ? null : response.error || 'Room not found');
+        }, () => {
+            if (!cancelled) setError('Could not reach the match. Try again.');
+        }));
+
+        return () => {
+            cancelled = true;
+            unsubscribe();
+            socket.emit('stopSpectating');
+        };
+    }, [socket, channel, connected, roomCode]);
+
+    const handleExit = () => navigate('/');
+
+    if (error || !room || room.status === 'lobby') {
+        return (
+            <div className="lobby">
+                <div className="lobby-card">
+                    <div className="lobby-label">Spectating</div>
+                    <div className="lobby-code">{roomCode}</div>
+                    {error ? (
+                        <div className="lobby-error">{error}</div>
+                    ) : (
+                        <div className="lobby-waiting">
+                            {room ? 'Waiting for the host to start…' : 'Finding match…'}
+                        </div>
+                    )}
+                    <button className="lobby-leave-btn" onClick={handleExit}>
+                        {error ? 'Back to Menu' : 'Leave'}
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    const isGameOver = room.mode === 'solo' ? room.timeRemaining <= 0 : room.round > room.maxRounds;
+
+    return (
+        <>
+            <GameCanvas
+                room={room}
+                playerId={playerId}
+                channel={channel}
+                inputEnabled={false}
+                spectating
+                theme={resolveTheme(themePreference, room)}
+                onExit={handleExit}
+            />
+            <GameUI room={room} playerId={playerId} spectating />
+            {isGameOver && (
+                <GameOver room={room} playerId={playerId} onPlayAgain={handleExit} spectating />
+            )}
+        </>
+    );
+};
+
+export default SpectatePage;
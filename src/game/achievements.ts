@@ -0,0 +1,87 @@
+/**
+ * Achievements — milestones a player unlocks by how they shoot. Each one is a
+ * check against the match so far (after every arrow) or the finished room;
+ * useAchievementStore decides what's new, keeps progress and queues the toast.
+ */
+import type { Room } from '../types';
+import type { ShotRecord } from '../stores/useMatchStore';
+import type { TargetFace } from './faces';
+import { FULL_WIND } from './engine/weather';
+
+export type AchievementId = 'first-bullseye' | 'hat-trick' | 'rout' | 'gale-force' | 'centurion';
+
+export interface Achievement {
+    id: AchievementId;
+    name: string;
+    description: string;
+    icon: string;
+    goal?: number;         // counted achievements: games needed to unlock
+}
+
+/** Top-ring arrows in a row for a hat trick. */
+const STREAK = 3;
+
+/** Points clear of the best opponent for a rout. */
+const WIN_MARGIN = 20;
+
+/** Wind at or above the weather's full strength counts as strong. */
+const STRONG_WIND = FULL_WIND;
+
+const GAMES_GOAL = 100;
+
+// In the order they're listed on the profile
+export const ACHIEVEMENTS: Achievement[] = [
+    { id: 'first-bullseye', name: 'First Bullseye', description: 'Hit the top-scoring ring', icon: '🎯' },
+    { id: 'hat-trick', name: 'Hat Trick', description: `${STREAK} top-ring arrows in a row`, icon: '🔥' },
+    { id: 'rout', name: 'Rout', description: `Win a match by ${WIN_MARGIN} points or more`, icon: '🏆' },
+    { id: 'gale-force', name: 'Gale Force', description: 'Score in strong wind', icon: '🌬️' },
+    { id: 'centurion', name: 'Centurion', description: `Play ${GAMES_GOAL} games`, icon: '💯', goal: GAMES_GOAL },
+];
+
+export const achievementById = (id: AchievementId): Achievement =>
+    ACHIEVEMENTS.find(a => a.id === id)!;
+
+export const isAchievementId = (value: unknown): value is AchievementId =>
+    ACHIEVEMENTS.some(a => a.id === value);
+
+/** One player's progress, as stored on this device. */
+export interface AchievementProgress {
+    unlocked: Partial<Record<AchievementId, number>>;   // when each was unlocked
+    gamesPlayed: number;
+    lastRoomId: string | null;                          // last match counted, so a repeated final state isn't counted twice
+}
+
+export const emptyProgress = (): AchievementProgress => ({ unlocked: {}, gamesPlayed: 0, lastRoomId: null });
+
+/** Unlocked achievements in list order. */
+export const unlockedAchievements = (progress: AchievementProgress | undefined): Achievement[] =>
+    ACHIEVEMENTS.filter(a => progress?.unlocked[a.id] !== undefined);
+
+// ── Checks ──
+
+/** Achievements earned by `playerId`'s latest arrow, given every arrow of the match so far. */
+export const shotAchievements = (shots: ShotRecord[], playerId: string, face: TargetFace): AchievementId[] => {
+    const mine = shots.filter(s => s.player === playerId);
+    const last = mine[mine.length - 1];
+    if (!last) return [];
+
+    const isTop = (shot: ShotRecord) => shot.score >= face.maxScore;
+    const earned: AchievementId[] = [];
+    if (isTop(last)) earned.push('first-bullseye');
+    if (mine.length >= STREAK && mine.slice(-STREAK).every(isTop)) earned.push('hat-trick');
+    if (last.score > 0 && Math.hypot(last.wind.x, last.wind.y) >= STRONG_WIND) earned.push('gale-force');
+    return earned;
+};
+
+/** Achievements earned by finishing `room`, counting it among `gamesPlayed`. */
+export const matchAchievements = (room: Room, playerId: string, gamesPlayed: number): AchievementId[] => {
+    const earned: AchievementId[] = [];
+    const me = room.players.find(p => p.userId === playerId);
+    const others = room.players.filter(p => p.userId !== playerId);
+    if (room.mode === 'multiplayer' && me && others.length > 0) {
+        const bestOther = Math.max(...others.map(p => p.score));
+        if (me.score - bestOther >= WIN_MARGIN) earned.push('rout');
+    }
+    if (gamesPlayed >= GAMES_GOAL) earned.push('centurion');
+    return earned;
+};
@@ -0,0 +1,153 @@
+/**
+ * Keyboard and gamepad aiming. Each source is polled once per frame and
+ * reports a virtual drag in screen pixels — the same units as a mouse or
+ * touch drag — so every input feeds the canvas's one impulse/damping model.
+ */
+import type { Point } from '../types';
+
+export interface AimIntent {
+    drag: Point;        // virtual pointer movement this frame (px)
+    draw: boolean;      // start drawing the bow (ignored unless it's our turn and we aren't aiming)
+    release: boolean;   // shoot (ignored unless aiming)
+    cancel: boolean;    // drop the draw without shooting
+}
+
+export interface AimInputSource {
+    read(dtSec: number): AimIntent;
+    dispose(): void;
+}
+
+// ── Keyboard ──
+
+/** Virtual drag speed while a direction key is held (px/s). */
+const KEY_DRAG_SPEED = 600;
+
+const KEY_DIRECTIONS: Record<string, Point> = {
+    ArrowUp: { x: 0, y: -1 }, KeyW: { x: 0, y: -1 },
+    ArrowDown: { x: 0, y: 1 }, KeyS: { x: 0, y: 1 },
+    ArrowLeft: { x: -1, y: 0 }, KeyA: { x: -1, y: 0 },
+    ArrowRight: { x: 1, y: 0 }, KeyD: { x: 1, y: 0 },
+};
+
+const DRAW_KEY = 'Space';
+
+// Keys aimed at these belong to them: typing, or Space / arrows on a focused button, link or slider
+const INTERACTIVE = 'input, textarea, select, button, a[href], summary, [role="button"], [role="link"], [role="tab"], [role="slider"]';
+
+const isOnControl = (e: KeyboardEvent) =>
+    e.target instanceof HTMLElement && (e.target.isContentEditable || e.target.closest(INTERACTIVE) !== null);
+
+/** Arrow keys / WASD push the reticle; hold Space to draw, let go to shoot. */
+export const createKeyboardAim = (): AimInputSource => {
+    const held = new Set<string>();
+    let drawPressed = false;
+    let drawReleased = false;
+    let drawCancelled = false;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+        if (isOnControl(e)) return;
+        if (e.code === DRAW_KEY) {
+            e.preventDefault();
+            if (!e.repeat) drawPressed = true;
+        } else if (KEY_DIRECTIONS[e.code]) {
+            e.preventDefault();
+            held.add(e.code);
+        }
+    };
+
+    const onKeyUp = (e: KeyboardEvent) => {
+        if (e.code === DRAW_KEY) drawReleased = true;
+        held.delete(e.code);
+    };
+
+    // Keys released while the window is unfocused never send keyup; leaving
+    // mid-draw lets the bow down rather than loosing an arrow nobody aimed
+    const onBlur = () => {
+        held.clear();
+        drawPressed = false;
+        drawReleased = false;
+        drawCancelled = true;
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+
+    return {
+        read(dtSec) {
+            let x = 0, y = 0;
+            held.forEach(code => {
+                x += KEY_DIRECTIONS[code].x;
+                y += KEY_DIRECTIONS[code].y;
+            });
+            // Diagonals shouldn't be faster than straight pushes
+            const len = Math.sqrt(x * x + y * y) || 1;
+            const step = KEY_DRAG_SPEED * dtSec / len;
+
+            const intent: AimIntent = { drag: { x: x * step, y: y * step }, draw: drawPressed, release: drawReleased, cancel: drawCancelled };
+            drawPressed = false;
+            drawReleased = false;
+            drawCancelled = false;
+            return intent;
+        },
+
+        dispose() {
+            window.removeEventListener('keydown', onKeyDown);
+            window.removeEventListener('keyup', onKeyUp);
+            window.removeEventListener('blur', onBlur);
+        },
+    };
+};
+
+// ── Gamepad ──
+
+/** Virtual drag speed at full stick deflection (px/s). */
+const STICK_DRAG_SPEED = 700;
+const STICK_DEADZONE = 0.15;
+const TRIGGER_THRESHOLD = 0.5;
+
+// Standard mapping: button 0 = A / Cross, button 7 = right trigger
+const DRAW_BUTTON = 0;
+const FIRE_BUTTON = 7;
+
+const applyDeadzone = (value: number) => {
+    const magnitude = Math.abs(value);
+    if (magnitude < STICK_DEADZONE) return 0;
+    // Rescale so motion starts smoothly at the edge of the deadzone
+    return Math.sign(value) * (magnitude - STICK_DEADZONE) / (1 - STICK_DEADZONE);
+};
+
+/** Left stick pushes the reticle; A starts the draw, the right trigger shoots. */
+export const createGamepadAim = (): AimInputSource => {
+    let wasDrawHeld = false;
+    let wasFireHeld = false;
+
+    return {
+        read(dtSec) {
+            const pad = typeof navigator.getGamepads === 'function'
+                ? navigator.getGamepads().find(p => p?.connected) ?? null
+                : null;
+            if (!pad) {
+                wasDrawHeld = wasFireHeld = false;
+                return { drag: { x: 0, y: 0 }, draw: false, release: false, cancel: false };
+            }
+
+            const drawHeld = pad.buttons[DRAW_BUTTON]?.pressed ?? false;
+            const fireHeld = (pad.buttons[FIRE_BUTTON]?.value ?? 0) >= TRIGGER_THRESHOLD;
+            const intent: AimIntent = {
+                drag: {
+                    x: applyDeadzone(pad.axes[0] ?? 0) * STICK_DRAG_SPEED * dtSec,
+                    y: applyDeadzone(pad.axes[1] ?? 0) * STICK_DRAG_SPEED * dtSec,
+                },
+                draw: drawHeld && !wasDrawHeld,
+                release: fireHeld && !wasFireHeld,
+                cancel: false,
+            };
+            wasDrawHeld = drawHeld;
+            wasFireHeld = fireHeld;
+            return intent;
+        },
+
+        dispose() { /* polled — nothing to unbind */ },
+    };
+};
@@ -0,0 +1,44 @@
+/**
+ * GameChannel — the stream of match events a game screen consumes.
+ * Online play is backed by the socket; offline modes supply their own
+ * implementation, so the canvas and HUD never talk to the socket directly.
+ */
+import type { GameSocket, ServerToClientEvents } from '../socket/events';
+import { listen } from '../socket/validation';
+import type { Point } from '../types';
+
+export type GameChannelEvents = Pick<ServerToClientEvents, 'gameState' | 'shotResult'>;
+
+export type GameChannelPayload<E extends keyof GameChannelEvents> = Parameters<GameChannelEvents[E]>[0];
+
+export interface GameChannel {
+    /** Subscribe to a match event. Returns an unsubscribe function. */
+    on<E extends keyof GameChannelEvents>(event: E, handler: (payload: GameChannelPayload<E>) => void): () => void;
+    /** Release an arrow at the given aim offset (relative to target center). */
+    shoot(aimPosition: Point): void;
+}
+
+export const createSocketChannel = (socket: GameSocket): GameChannel => ({
+    on: (event, handler) => listen(socket, event, handler),
+    shoot: (aimPosition) => socket.emit('shoot', { aimPosition }),
+});
+
+/** Minimal event hub for channels that produce their own events. */
+export const createChannelEmitter = () => {
+    const handlers: { [E in keyof GameChannelEvents]: Set<(payload: GameChannelPayload<E>) => void> } = {
+        gameState: new Set(),
+        shotResult: new Set(),
+    };
+
+    return {
+        on<E extends keyof GameChannelEvents>(event: E, handler: (payload: GameChannelPayload<E>) => void) {
+            const set = handlers[event] as Set<(payload: GameChannelPayload<E>) => void>;
+            set.add(handler);
+            return () => { set.delete(handler); };
+        },
+        emit<E extends keyof GameChannelEvents>(event: E, payload: GameChannelPayload<E>) {
+            const set = handlers[event] as Set<(payload: GameChannelPayload<E>) => void>;
+            set.forEach(handler => handler(payload));
+        },
+    };
+};
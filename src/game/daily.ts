@@ -0,0 +1,34 @@
+/**
+ * Daily challenge — one solo run a day that everyone shoots identically. The
+ * server seeds the day's time limit and wind sequence from the date it is
+ * sent in `MatchOptions.daily`; the engine spawns the reticle from
+ * `dailySpawnRandom`, so scores on the day's board are comparable.
+ */
+
+/** The challenge date for `now`: days roll over at midnight UTC, so everyone shares one. */
+export const dailyDate = (now: Date = new Date()) => now.toISOString().slice(0, 10);
+
+/** Readable date for labels and share cards, e.g. "18 Oct 2026". */
+export const formatDailyDate = (date: string) =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+// FNV-1a: spreads consecutive dates across the whole seed space
+const hashDate = (date: string) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < date.length; i++) hash = Math.imul(hash ^ date.charCodeAt(i), 0x01000193);
+    return hash >>> 0;
+};
+
+/** Deterministic 0 → 1 generator (mulberry32); the same seed always gives the same sequence. */
+const seededRandom = (seed: number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+/** Reticle spawns for one shot of the day's run; drawing again on the same shot spawns in the same place. */
+export const dailySpawnRandom = (date: string, shot: number) => seededRandom(hashDate(date) + shot * 0x9e3779b9);
@@ -0,0 +1,30 @@
+/**
+ * Shooting distances. A farther target is drawn smaller, the arrow flies
+ * longer and higher, and the wind has longer to push it. Factors are relative
+ * to 18m, the distance the engine defaults are tuned for.
+ */
+import type { Room } from '../types';
+
+export interface RangeDistance {
+    meters: number;
+    scale: number;        // × target scale
+    flightTime: number;   // × flight duration
+    arc: number;          // × arc height
+    drift: number;        // × wind drift
+}
+
+export const DISTANCES: RangeDistance[] = [
+    { meters: 18, scale: 1, flightTime: 1, arc: 1, drift: 1 },
+    { meters: 30, scale: 0.75, flightTime: 1.3, arc: 1.2, drift: 1.5 },
+    { meters: 50, scale: 0.55, flightTime: 1.7, arc: 1.45, drift: 2.2 },
+    { meters: 70, scale: 0.42, flightTime: 2.1, arc: 1.7, drift: 3 },
+];
+
+export const DEFAULT_DISTANCE = DISTANCES[0].meters;
+
+/** Unknown distances fall back to the closest one, so an older client still draws something sensible. */
+export const distanceSpec = (meters: number = DEFAULT_DISTANCE): RangeDistance =>
+    DISTANCES.reduce((best, d) => Math.abs(d.meters - meters) < Math.abs(best.meters - meters) ? d : best);
+
+/** The distance a room is shot at. Rooms from before distances existed are at the default. */
+export const roomDistance = (room: Room) => room.distance ?? DEFAULT_DISTANCE;
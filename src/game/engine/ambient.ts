@@ -0,0 +1,100 @@
+/**
+ * Ambient system — the theme's weather and wildlife: snow, fireflies, pollen,
+ * dust motes in the lights. Purely decorative screen-space particles that
+ * wrap around the viewport, so there's never any spawning after a reset.
+ */
+import type { Point } from '../../types';
+import type { AmbientSpec } from '../themes';
+import type { Layout } from './scene';
+
+export interface AmbientParticle {
+    x: number;             // CSS pixels
+    y: number;
+    vx: number;            // px/s
+    vy: number;
+    r: number;
+    phase: number;         // radians; desynchronizes sway and blinking
+}
+
+export interface AmbientState {
+    spec: AmbientSpec | null;
+    particles: AmbientParticle[];
+}
+
+export interface AmbientSystem {
+    readonly state: Readonly<AmbientState>;
+    /** Swap to a theme's particles (or none), scattered over the layout. */
+    reset(spec: AmbientSpec | null, layout: Layout): void;
+    update(deltaTime: number, layout: Layout, wind: Point): void;
+}
+
+/** How visible a particle is this frame, 0 → 1. Fireflies blink; snow is always there. */
+export const ambientAlpha = (kind: AmbientSpec['kind'], p: AmbientParticle, now: number) => {
+    switch (kind) {
+        case 'fireflies': return Math.max(0, Math.sin(now / 700 + p.phase)) ** 2;
+        case 'snow': return 0.85;
+        case 'pollen': return 0.5;
+        case 'motes': return 0.25 + 0.2 * Math.sin(now / 1500 + p.phase);
+    }
+};
+
+const wrap = (value: number, size: number, margin: number) =>
+    value < -margin ? value + size + margin * 2 : value > size + margin ? value - size - margin * 2 : value;
+
+export const createAmbientSystem = (random: () => number = Math.random): AmbientSystem => {
+    const state: AmbientState = { spec: null, particles: [] };
+    let time = 0;
+
+    const spawn = (kind: AmbientSpec['kind'], { w, h, horizonY }: Layout): AmbientParticle => {
+        const phase = random() * Math.PI * 2;
+        switch (kind) {
+            case 'snow':
+                return { x: random() * w, y: random() * h, vx: 0, vy: 35 + random() * 45, r: 1 + random() * 2.5, phase };
+            case 'fireflies':
+                // Hover low over the grass and in the tree line
+                return { x: random() * w, y: horizonY - 60 + random() * (h - horizonY + 60), vx: 0, vy: 0, r: 1.5 + random(), phase };
+            case 'pollen':
+                return { x: random() * w, y: random() * h * 0.8, vx: 0, vy: -4 + random() * 8, r: 0.8 + random(), phase };
+            case 'motes':
+                return { x: random() * w, y: random() * h, vx: 0, vy: -3 + random() * 6, r: 0.8 + random() * 1.2, phase };
+        }
+    };
+
+    return {
+        state,
+
+        reset(spec, layout) {
+            state.spec = spec;
+            state.particles = spec ? Array.from({ length: spec.count }, () => spawn(spec.kind, layout)) : [];
+        },
+
+        update(deltaTime, { w, h }, wind) {
+            const spec = state.spec;
+            if (!spec) return;
+            time += deltaTime;
+            const dt = deltaTime / 1000;
+            // Wind is in the same units the target's indicator shows; light particles feel it most
+            const push = spec.kind === 'snow' ? 12 : spec.kind === 'pollen' ? 8 : spec.kind === 'motes' ? 1 : 2;
+
+            for (const p of state.particles) {
+                const sway = Math.sin(time / 900 + p.phase);
+                switch (spec.kind) {
+                    case 'snow':
+                        p.vx = wind.x * push + sway * 12;
+                        break;
+                    case 'fireflies':
+                        // Lazy wandering loops
+                        p.vx = Math.cos(time / 1300 + p.phase) * 14 + wind.x * push;
+                        p.vy = Math.sin(time / 1700 + p.phase * 1.3) * 10;
+                        break;
+                    case 'pollen':
+                    case 'motes':
+                        p.vx = wind.x * push + sway * 4;
+                        break;
+                }
+                p.x = wrap(p.x + p.vx * dt, w, 10);
+                p.y = wrap(p.y + p.vy * dt, h, 10);
+            }
+        },
+    };
+};
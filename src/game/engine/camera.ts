@@ -0,0 +1,115 @@
+/**
+ * Camera system — zoom, zoom focus and board shake. Three zoom phases:
+ * normal (1x), aiming (aimZoom on the target), post-shot (resultZoom on the hit).
+ */
+import type { Point } from '../../types';
+import { decayFor, type EngineConfig } from './config';
+import { flightProgress, type Flight } from './projectile';
+
+export interface CameraState {
+    zoom: number;
+    focus: Point;          // screen point the zoom is centered on
+    shake: Point;          // board offset this frame
+    dof: number;           // depth-of-field strength, 0 → 1, eased in during the post-shot hold
+}
+
+/** What the camera is following this frame. */
+export interface CameraFrame {
+    target: Point;         // target center on screen
+    aiming: boolean;
+    flight: Flight | null;
+}
+
+export interface Camera {
+    readonly state: Readonly<CameraState>;
+    /** Brief zoom kick on release. */
+    bump(): void;
+    /** Hold the result zoom on a hit point for durationMs. */
+    holdOn(hitPoint: Point, durationMs: number): void;
+    isHolding(): boolean;
+    /** Knock the board on impact. */
+    shake(): void;
+    update(deltaTime: number, frame: CameraFrame, config: EngineConfig): void;
+    /** Back to the resting view, dropping any bump, hold or shake. */
+    reset(): void;
+}
+
+export const createCamera = (random: () => number = Math.random): Camera => {
+    const state: CameraState = { zoom: 1, focus: { x: 0, y: 0 }, shake: { x: 0, y: 0 }, dof: 0 };
+    let releaseBump = 0;
+    const hold = { timer: 0, hitPoint: { x: 0, y: 0 } };
+    const boardShake = { x: 0, y: 0, decay: 0 };
+
+    return {
+        state,
+
+        bump() {
+            releaseBump = 1.0;
+        },
+
+        holdOn(hitPoint, durationMs) {
+            hold.timer = durationMs;
+            hold.hitPoint = hitPoint;
+        },
+
+        isHolding: () => hold.timer > 0,
+
+        shake() {
+            boardShake.x = (random() - 0.5) * 4;
+            boardShake.y = (random() - 0.5) * 3;
+            boardShake.decay = 1.0;
+        },
+
+        reset() {
+            state.zoom = 1;
+            state.shake = { x: 0, y: 0 };
+            state.dof = 0;
+            releaseBump = 0;
+            hold.timer = 0;
+            boardShake.decay = 0;
+        },
+
+        update(deltaTime, frame, config) {
+            let desiredZoom = 1.0;
+            let focus = frame.target;
+
+            if (hold.timer > 0) {
+                desiredZoom = config.resultZoom;
+                focus = { x: frame.target.x + hold.hitPoint.x, y: frame.target.y + hold.hitPoint.y };
+                hold.timer -= deltaTime;
+            } else if (frame.flight) {
+                // Start zooming toward hit point during flight (last 30%)
+                const ft = flightProgress(frame.flight);
+                if (ft > 0.7) {
+                    const zoomBlend = (ft - 0.7) / 0.3; // 0→1 over last 30%
+                    desiredZoom = 1.0 + (config.resultZoom - 1.0) * zoomBlend;
+                    focus = { x: frame.target.x + frame.flight.hitPoint.x, y: frame.target.y + frame.flight.hitPoint.y };
+                }
+            } else if (frame.aiming) {
+                desiredZoom = config.aimZoom;
+            }
+
+            // Release zoom bump (brief ~2% zoom on shot release)
+            if (releaseBump > 0.01) {
+                desiredZoom += releaseBump * 0.03;
+                releaseBump *= decayFor(0.92, deltaTime);
+            }
+
+            state.zoom += (desiredZoom - state.zoom) * (1 - decayFor(0.94, deltaTime));
+            state.focus = focus;
+            state.dof += ((hold.timer > 0 ? 1 : 0) - state.dof) * (1 - decayFor(0.9, deltaTime));
+
+            // Board shake
+            if (boardShake.decay > 0) {
+                state.shake = {
+                    x: boardShake.x * boardShake.decay * Math.sin(boardShake.decay * 40),
+                    y: boardShake.y * boardShake.decay * Math.cos(boardShake.decay * 35),
+                };
+                boardShake.decay *= decayFor(0.88, deltaTime); // Exponential decay
+                if (boardShake.decay < 0.01) boardShake.decay = 0;
+            } else {
+                state.shake = { x: 0, y: 0 };
+            }
+        },
+    };
+};
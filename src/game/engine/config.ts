@@ -0,0 +1,79 @@
+/**
+ * Engine tuning and timing. The defaults are what players get; in dev builds
+ * GameCanvas exposes every field as a leva control and pushes changes in.
+ */
+import { DEFAULT_TARGET_SCALE } from '../target';
+import { distanceSpec } from '../distance';
+
+export interface EngineConfig {
+    // Aiming feel
+    impulseStrength: number;     // drag px → aim velocity
+    dampingFactor: number;       // per-frame velocity damping (at 60fps)
+    maxVelocity: number;         // px/s
+    // Aiming
+    timerSeconds: number;        // shot clock before auto-fire
+    aimZoom: number;
+    // Result
+    resultZoom: number;
+    holdTime: number;            // post-shot zoom hold (s)
+    gameOverDelay: number;       // ms before the canvas dims at game over
+    // Target
+    targetScale: number;
+    // Flight animation
+    flightDuration: number;      // ms
+    arcHeightFactor: number;     // arc height as a fraction of flight distance
+    windDriftXFactor: number;
+    windDriftYFactor: number;
+    slowMoThreshold: number;     // flight progress where slow-mo starts
+    slowMoSpeed: number;
+    // Arrows
+    maxArrows: number;           // arrows left pinned in the board
+    useComplexShadow: boolean;
+}
+
+export const DEFAULT_ENGINE_CONFIG: EngineConfig = {
+    impulseStrength: 0.9,
+    dampingFactor: 0.999,
+    maxVelocity: 400,
+    timerSeconds: 5.0,
+    aimZoom: 2.0,
+    resultZoom: 3.0,
+    holdTime: 2.5,
+    gameOverDelay: 1000,
+    targetScale: DEFAULT_TARGET_SCALE,
+    flightDuration: 350,
+    arcHeightFactor: 0.20,
+    windDriftXFactor: 6.0,
+    windDriftYFactor: 3.0,
+    slowMoThreshold: 0.95,
+    slowMoSpeed: 0.8,
+    maxArrows: 3,
+    useComplexShadow: true,
+};
+
+/** The config as shot from `meters` away: smaller target, longer and higher flight, more drift. */
+export const withDistance = (config: EngineConfig, meters: number): EngineConfig => {
+    const d = distanceSpec(meters);
+    return {
+        ...config,
+        targetScale: config.targetScale * d.scale,
+        flightDuration: config.flightDuration * d.flightTime,
+        arcHeightFactor: config.arcHeightFactor * d.arc,
+        windDriftXFactor: config.windDriftXFactor * d.drift,
+        windDriftYFactor: config.windDriftYFactor * d.drift,
+    };
+};
+
+// ── Animation timing ──
+// Tuned at 60fps; everything advances by the frame's deltaTime so all refresh rates match.
+export const REFERENCE_FRAME_MS = 1000 / 60;
+export const MAX_FRAME_MS = 50;              // deltaTime cap, so a stalled tab doesn't jump
+export const IMPACT_DURATION = 200;          // arrow overshoot/bounce after landing (ms)
+export const IMPACT_FLASH_DURATION = 70;     // white flash at the hit point (ms)
+export const SOLO_HOLD_DURATION = 800;       // post-shot zoom hold in solo, for a rapid-fire feel (ms)
+export const SCORE_FLASH_DURATION = 3300;    // score popup fade (ms)
+export const TRAIL_DURATION = 130;           // motion trail length (ms)
+export const PARTICLE_GRAVITY = 540;         // impact dust (px/s²)
+
+/** Per-frame decay factor tuned at 60fps, corrected for this frame's length. */
+export const decayFor = (perFrame: number, deltaTime: number) => Math.pow(perFrame, deltaTime / REFERENCE_FRAME_MS);
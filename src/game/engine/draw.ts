@@ -0,0 +1,918 @@
+/**
+ * Canvas2D drawing helpers shared by both scene renderers. Coordinates are CSS
+ * pixels; the caller sets up the DPR and camera transforms.
+ */
+import type { Room, Point } from '../../types';
+import { FACE_RADIUS, scoreTier, type FaceZone, type ScoreTier, type TargetFace } from '../faces';
+import { FLETCHING_PALETTES, paletteForSeat, type FletchingColors } from '../palettes';
+import { displayName } from '../standings';
+import type { Theme } from '../themes';
+import { impactProgress, type ProjectileState } from './projectile';
+import { ambientAlpha, type AmbientState } from './ambient';
+import { FULL_WIND, debrisAlpha, type WeatherState } from './weather';
+import type { Layout, SceneFrame } from './scene';
+
+/** Both on-screen and offscreen (worker) canvases draw through the same helpers. */
+export type Ctx2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/** The theme's sky, ground and scenery — static, so renderers cache it. */
+export const paintBackground = (ctx: Ctx2D, layout: Layout, theme: Theme) => {
+    for (const layer of theme.background) layer(ctx, layout);
+};
+
+export const drawFlyingArrow = (ctx: Ctx2D, x: number, y: number, angle: number, colors: FletchingColors) => {
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.rotate(angle);
+    const shaftGrad = ctx.createLinearGradient(0, -1.5, 0, 1.5);
+    shaftGrad.addColorStop(0, '#3a3a3a');
+    shaftGrad.addColorStop(0.5, '#555');
+    shaftGrad.addColorStop(1, '#2a2a2a');
+    ctx.fillStyle = shaftGrad;
+    ctx.fillRect(-28, -1.5, 43, 3);
+    const headGrad = ctx.createLinearGradient(15, -4, 15, 4);
+    headGrad.addColorStop(0, '#aaa');
+    headGrad.addColorStop(0.5, '#ddd');
+    headGrad.addColorStop(1, '#888');
+    ctx.fillStyle = headGrad;
+    ctx.beginPath(); ctx.moveTo(22, 0); ctx.lineTo(14, -4); ctx.lineTo(14, 4); ctx.closePath(); ctx.fill();
+    ctx.fillStyle = colors.grad[0];
+    ctx.beginPath(); ctx.moveTo(-28, 0); ctx.lineTo(-35, -6); ctx.lineTo(-26, -1); ctx.closePath(); ctx.fill();
+    ctx.beginPath(); ctx.moveTo(-28, 0); ctx.lineTo(-35, 6); ctx.lineTo(-26, 1); ctx.closePath(); ctx.fill();
+    ctx.fillStyle = '#ddd';
+    ctx.beginPath(); ctx.arc(-28, 0, 1.5, 0, Math.PI * 2); ctx.fill();
+    ctx.restore();
+};
+
+export const drawTarget = (ctx: Ctx2D, x: number, y: number, scale: number, face: TargetFace) => {
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.scale(scale, scale);
+
+    const boardSize = 140; // Half-size of the board
+    const bs = boardSize;
+
+    // ── Ground shadow ──
+    ctx.fillStyle = 'rgba(0,0,0,0.18)';
+    ctx.beginPath(); ctx.ellipse(0, bs + 55, bs * 0.8, 10, 0, 0, Math.PI * 2); ctx.fill();
+
+    // ── Wooden legs (angled, tapered — like an easel/A-frame) ──
+    const legTopW = 12;     // Width at top (where leg meets board)
+    const legBotW = 10;     // Width at bottom (ground)
+    const legH = 70;        // Leg height below board
+    const legSplay = 25;    // How far legs splay outward at bottom
+
+    // Left leg (angled outward)
+    ctx.save();
+    ctx.fillStyle = '#5e3a1a';
+    ctx.beginPath();
+    ctx.moveTo(-bs * 0.4 - legTopW / 2, bs + 2);             // Top-left
+    ctx.lineTo(-bs * 0.4 + legTopW / 2, bs + 2);             // Top-right
+    ctx.lineTo(-bs * 0.4 - legSplay + legBotW / 2, bs + legH); // Bottom-right
+    ctx.lineTo(-bs * 0.4 - legSplay - legBotW / 2, bs + legH); // Bottom-left
+    ctx.closePath();
+    ctx.fill();
+    // Wood grain highlight
+    ctx.strokeStyle = 'rgba(255,255,255,0.08)';
+    ctx.lineWidth = 0.8;
+    for (let i = 5; i < legH; i += 8) {
+        const t = i / legH;
+        const cx = -bs * 0.4 - legSplay * t;
+        ctx.beginPath(); ctx.moveTo(cx - 4, bs + 2 + i); ctx.lineTo(cx + 4, bs + 2 + i + 2); ctx.stroke();
+    }
+    // Dark inner edge
+    ctx.strokeStyle = 'rgba(0,0,0,0.2)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(-bs * 0.4 + legTopW / 2, bs + 2);
+    ctx.lineTo(-bs * 0.4 - legSplay + legBotW / 2, bs + legH);
+    ctx.stroke();
+    ctx.restore();
+
+    // Right leg (mirrored)
+    ctx.save();
+    ctx.fillStyle = '#5e3a1a';
+    ctx.beginPath();
+    ctx.moveTo(bs * 0.4 - legTopW / 2, bs + 2);
+    ctx.lineTo(bs * 0.4 + legTopW / 2, bs + 2);
+    ctx.lineTo(bs * 0.4 + legSplay + legBotW / 2, bs + legH);
+    ctx.lineTo(bs * 0.4 + legSplay - legBotW / 2, bs + legH);
+    ctx.closePath();
+    ctx.fill();
+    ctx.strokeStyle = 'rgba(255,255,255,0.08)';
+    ctx.lineWidth = 0.8;
+    for (let i = 5; i < legH; i += 8) {
+        const t = i / legH;
+        const cx = bs * 0.4 + legSplay * t;
+        ctx.beginPath(); ctx.moveTo(cx - 4, bs + 2 + i); ctx.lineTo(cx + 4, bs + 2 + i + 2); ctx.stroke();
+    }
+    ctx.strokeStyle = 'rgba(0,0,0,0.2)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(bs * 0.4 - legTopW / 2, bs + 2);
+    ctx.lineTo(bs * 0.4 + legSplay - legBotW / 2, bs + legH);
+    ctx.stroke();
+    ctx.restore();
+
+    // ── Wooden frame (border) ──
+    const frameW = 16;
+    // Frame background
+    ctx.fillStyle = '#7a4f2a';
+    ctx.fillRect(-bs - frameW, -bs - frameW, (bs + frameW) * 2, (bs + frameW) * 2);
+    // Wood grain lines
+    ctx.strokeStyle = 'rgba(0,0,0,0.08)';
+    ctx.lineWidth = 1;
+    for (let i = -bs - frameW; i < bs + frameW; i += 6) {
+        ctx.beginPath();
+        ctx.moveTo(-bs - frameW, i); ctx.lineTo(bs + frameW, i + 3);
+        ctx.stroke();
+    }
+    // Frame highlight (top/left bevel)
+    ctx.fillStyle = 'rgba(255,255,255,0.1)';
+    ctx.fillRect(-bs - frameW, -bs - frameW, (bs + frameW) * 2, 4);
+    ctx.fillRect(-bs - frameW, -bs - frameW, 4, (bs + frameW) * 2);
+    // Frame shadow (bottom/right bevel)
+    ctx.fillStyle = 'rgba(0,0,0,0.15)';
+    ctx.fillRect(-bs - frameW, bs + frameW - 4, (bs + frameW) * 2, 4);
+    ctx.fillRect(bs + frameW - 4, -bs - frameW, 4, (bs + frameW) * 2);
+
+    // ── Corner bolts ──
+    const boltPositions = [
+        [-bs - 6, -bs - 6], [bs + 6, -bs - 6],
+        [-bs - 6, bs + 6], [bs + 6, bs + 6]
+    ];
+    boltPositions.forEach(([bx, by]) => {
+        ctx.fillStyle = '#999';
+        ctx.beginPath(); ctx.arc(bx, by, 5, 0, Math.PI * 2); ctx.fill();
+        ctx.fillStyle = '#777';
+        ctx.beginPath(); ctx.arc(bx, by, 3, 0, Math.PI * 2); ctx.fill();
+        // Screw slot
+        ctx.strokeStyle = '#555'; ctx.lineWidth = 1.5;
+        ctx.beginPath(); ctx.moveTo(bx - 2, by); ctx.lineTo(bx + 2, by); ctx.stroke();
+    });
+
+    // ── Backing (target paper) ──
+    ctx.fillStyle = face.paper;
+    ctx.fillRect(-bs, -bs, bs * 2, bs * 2);
+    // Subtle paper texture (deterministic — no flicker)
+    ctx.fillStyle = 'rgba(0,0,0,0.02)';
+    for (let ty = -bs; ty < bs; ty += 4) {
+        for (let tx = -bs; tx < bs; tx += 4) {
+            // Simple hash for deterministic noise
+            if (((tx * 73 + ty * 137) & 0xff) > 128) ctx.fillRect(tx, ty, 4, 4);
+        }
+    }
+
+    // ── Face ──
+    ctx.font = `bold ${face.labelSize}px Arial`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    for (const zone of face.zones) {
+        if (zone.kind === 'rings') drawRingZone(ctx, zone, face);
+        else if (zone.kind === 'balloon') drawBalloon(ctx, zone);
+        else drawClay(ctx, zone);
+    }
+
+    ctx.restore();
+};
+
+// A ring set: rings outside in, the X, a center cross and each ring's score
+const drawRingZone = (ctx: Ctx2D, zone: FaceZone, face: TargetFace) => {
+    const { x, y, rings } = zone;
+    rings.forEach(ring => {
+        ctx.beginPath(); ctx.arc(x, y, ring.r, 0, Math.PI * 2);
+        ctx.fillStyle = ring.fill; ctx.fill();
+        // Ring border
+        ctx.strokeStyle = face.line; ctx.lineWidth = 0.8; ctx.stroke();
+    });
+
+    // Inner X ring (bullseye)
+    if (face.xRing) {
+        ctx.beginPath(); ctx.arc(x, y, face.xRing, 0, Math.PI * 2);
+        ctx.fillStyle = '#FFC107'; ctx.fill();
+        ctx.strokeStyle = 'rgba(0,0,0,0.2)'; ctx.lineWidth = 0.5; ctx.stroke();
+    }
+
+    // Center cross
+    const cross = Math.min(4, rings[rings.length - 1].r / 2);
+    ctx.strokeStyle = 'rgba(0,0,0,0.3)'; ctx.lineWidth = 0.5;
+    ctx.beginPath(); ctx.moveTo(x - cross, y); ctx.lineTo(x + cross, y); ctx.stroke();
+    ctx.beginPath(); ctx.moveTo(x, y - cross); ctx.lineTo(x, y + cross); ctx.stroke();
+
+    // Score numbers, at the bottom of each ring's band
+    rings.forEach((ring, i) => {
+        if (!ring.ink) return;
+        const inner = rings[i + 1]?.r ?? face.xRing ?? 0;
+        ctx.fillStyle = ring.ink;
+        ctx.fillText(`${ring.score}`, x, y + (ring.r + inner) / 2);
+    });
+};
+
+// A balloon tied to the board: a little taller than it is wide, with a knot and its string
+const drawBalloon = (ctx: Ctx2D, zone: FaceZone) => {
+    const { x, y } = zone;
+    const { r, fill, score, ink } = zone.rings[0];
+    ctx.strokeStyle = 'rgba(0,0,0,0.35)'; ctx.lineWidth = 1;
+    ctx.beginPath(); ctx.moveTo(x, y + r * 1.15); ctx.quadraticCurveTo(x + 6, y + r * 1.5, x, y + r * 1.8); ctx.stroke();
+
+    ctx.fillStyle = fill;
+    ctx.beginPath(); ctx.ellipse(x, y, r, r * 1.15, 0, 0, Math.PI * 2); ctx.fill();
+    ctx.beginPath(); ctx.moveTo(x - 3, y + r * 1.22); ctx.lineTo(x + 3, y + r * 1.22); ctx.lineTo(x, y + r * 1.1); ctx.closePath(); ctx.fill();
+    // Shine
+    ctx.fillStyle = 'rgba(255,255,255,0.35)';
+    ctx.beginPath(); ctx.ellipse(x - r * 0.35, y - r * 0.45, r * 0.22, r * 0.34, -0.5, 0, Math.PI * 2); ctx.fill();
+
+    if (ink) {
+        ctx.fillStyle = ink;
+        ctx.fillText(`${score}`, x, y + 1);
+    }
+};
+
+// A clay disc, face on: a raised rim around a domed center
+const drawClay = (ctx: Ctx2D, zone: FaceZone) => {
+    const { x, y } = zone;
+    const { r, fill, score, ink } = zone.rings[0];
+    ctx.fillStyle = fill;
+    ctx.beginPath(); ctx.arc(x, y, r, 0, Math.PI * 2); ctx.fill();
+    ctx.strokeStyle = 'rgba(0,0,0,0.3)'; ctx.lineWidth = 2;
+    ctx.beginPath(); ctx.arc(x, y, r - 1, 0, Math.PI * 2); ctx.stroke();
+    ctx.strokeStyle = 'rgba(255,255,255,0.25)'; ctx.lineWidth = 1;
+    ctx.beginPath(); ctx.arc(x, y, r * 0.55, Math.PI * 0.9, Math.PI * 1.6); ctx.stroke();
+
+    if (ink) {
+        ctx.fillStyle = ink;
+        ctx.fillText(`${score}`, x, y + 1);
+    }
+};
+
+// Wind speed + direction indicator (displayed above target)
+export const drawWindIndicator = (ctx: Ctx2D, x: number, y: number, wind: Point) => {
+    const strength = Math.sqrt(wind.x * wind.x + wind.y * wind.y);
+    const angle = Math.atan2(wind.y, wind.x);
+
+    ctx.save();
+    ctx.translate(x, y);
+
+    // ── Background pill ──
+    const pillW = 140;
+    const pillH = 32;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+    ctx.beginPath();
+    ctx.roundRect(-pillW / 2, -pillH / 2, pillW, pillH, pillH / 2);
+    ctx.fill();
+
+    // ── "WIND:" label ──
+    ctx.font = 'bold 13px Arial, sans-serif';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = '#ccc';
+    ctx.fillText('WIND:', -pillW / 2 + 12, 1);
+
+    // ── Speed value (yellow, bold) ──
+    ctx.font = 'bold 16px Arial, sans-serif';
+    ctx.fillStyle = '#FFD600';
+    ctx.fillText(strength.toFixed(1), 12, 1);
+
+    // ── Direction arrow in circle ──
+    const circleX = pillW / 2 - 18;
+    const circleR = 11;
+
+    // Yellow circle outline
+    ctx.strokeStyle = '#FFD600';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(circleX, 0, circleR, 0, Math.PI * 2);
+    ctx.stroke();
+
+    // Arrow pointing in wind direction
+    ctx.save();
+    ctx.translate(circleX, 0);
+    ctx.rotate(angle);
+    ctx.fillStyle = '#FFD600';
+    ctx.beginPath();
+    // Arrow shaft
+    ctx.moveTo(-5, 0);
+    ctx.lineTo(4, 0);
+    // Arrowhead
+    ctx.moveTo(3, -3.5);
+    ctx.lineTo(7, 0);
+    ctx.lineTo(3, 3.5);
+    ctx.closePath();
+    ctx.fill();
+    // Arrow shaft line
+    ctx.strokeStyle = '#FFD600';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(-5, 0);
+    ctx.lineTo(4, 0);
+    ctx.stroke();
+    ctx.restore();
+
+    ctx.restore();
+};
+
+export const drawPinnedArrow = ({
+    ctx,
+    x,
+    y,
+    animProgress = 1.0,
+    colors = FLETCHING_PALETTES[0],
+    useComplexShadow = false,
+}: {
+    ctx: Ctx2D;
+    x: number;
+    y: number;
+    animProgress?: number;
+    colors?: FletchingColors;
+    useComplexShadow?: boolean;
+}) => {
+    ctx.save();
+    ctx.translate(x, y);
+
+    // Deterministic tilt from hit position
+    const seed = Math.abs(x * 73.13 + y * 91.17) % 360;
+    const tiltAngle = ((seed / 360) * 0.24 - 0.12);
+    ctx.rotate(tiltAngle);
+
+    const shaftLen = 28;
+    const shaftR1 = 1.3;
+    const shaftR2 = 1.3;
+
+    // ── 1. Shadow — layered ellipses (no blur filter!) ──
+    const shadowOx = 4;
+    const shadowOy = 5;
+    ctx.save();
+
+    if (useComplexShadow) {
+        ctx.globalAlpha = 0.18 * animProgress;
+        ctx.fillStyle = '#000';
+        ctx.filter = 'blur(3px)';
+        ctx.beginPath();
+        // Broadhead blades (bottom)
+        ctx.moveTo(shadowOx - 5, shadowOy + 3);
+        ctx.lineTo(shadowOx, shadowOy - 2);
+        ctx.lineTo(shadowOx + 5, shadowOy + 3);
+        // Shaft right edge (going up)
+        ctx.lineTo(shadowOx + shaftR1, shadowOy);
+        ctx.lineTo(shadowOx + shaftR2, shadowOy - shaftLen);
+        // Right fletching wing
+        ctx.lineTo(shadowOx + 14, shadowOy - shaftLen - 18);
+        ctx.lineTo(shadowOx + 0, shadowOy - shaftLen - 18 * 0.7);
+        // Left fletching wing
+        ctx.lineTo(shadowOx - 14, shadowOy - shaftLen - 18);
+        ctx.lineTo(shadowOx - shaftR2, shadowOy - shaftLen);
+        // Shaft left edge (going back down)
+        ctx.lineTo(shadowOx - shaftR1, shadowOy);
+        ctx.closePath();
+        ctx.fill();
+        ctx.filter = 'none';
+    } else {
+        ctx.fillStyle = 'rgba(0,0,0,0.06)';
+        ctx.globalAlpha = animProgress;
+        ctx.beginPath(); ctx.ellipse(shadowOx, shadowOy - shaftLen / 2, 10, shaftLen * 0.6, 0, 0, Math.PI * 2); ctx.fill();
+        ctx.fillStyle = 'rgba(0,0,0,0.10)';
+        ctx.beginPath(); ctx.ellipse(shadowOx, shadowOy - shaftLen / 2, 6, shaftLen * 0.45, 0, 0, Math.PI * 2); ctx.fill();
+    }
+    ctx.restore();
+    // Pushed-out rim
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.12)';
+    ctx.lineWidth = 0.7;
+    ctx.beginPath(); ctx.arc(0, 0, 5, 0, Math.PI * 2); ctx.stroke();
+
+    // ── 2. Broadhead — flat colors (no per-frame gradients) ──
+    const ferruleR = 2.2;
+    ctx.fillStyle = '#999';
+    ctx.beginPath(); ctx.arc(0, 0, ferruleR, 0, Math.PI * 2); ctx.fill();
+    ctx.strokeStyle = 'rgba(0,0,0,0.3)';
+    ctx.lineWidth = 0.6;
+    ctx.stroke();
+
+    // 3 Blade edges (flat fills)
+    const bladeLen = 6;
+    const bladeW = 1.8;
+    ctx.fillStyle = '#ccc';
+    for (let b = 0; b < 3; b++) {
+        const bAngle = (b * 120 - 60) * (Math.PI / 180);
+        const bTipX = Math.cos(bAngle) * bladeLen;
+        const bTipY = Math.sin(bAngle) * bladeLen;
+        const bPerpX = -Math.sin(bAngle) * bladeW * 0.5;
+        const bPerpY = Math.cos(bAngle) * bladeW * 0.5;
+        ctx.beginPath();
+        ctx.moveTo(bPerpX * 0.6, bPerpY * 0.6);
+        ctx.lineTo(bTipX, bTipY);
+        ctx.lineTo(-bPerpX * 0.6, -bPerpY * 0.6);
+        ctx.closePath();
+        ctx.fill();
+    }
+
+    // Ferrule highlight
+    ctx.fillStyle = 'rgba(255,255,255,0.5)';
+    ctx.beginPath(); ctx.arc(-0.3, -0.5, 0.8, 0, Math.PI * 2); ctx.fill();
+
+    // ── 3. Shaft — single flat fill (gradient invisible at 3px width) ──
+    ctx.fillStyle = '#333';
+    ctx.beginPath();
+    ctx.moveTo(-shaftR1, 0);
+    ctx.lineTo(-shaftR2, -shaftLen);
+    ctx.lineTo(shaftR2, -shaftLen);
+    ctx.lineTo(shaftR1, 0);
+    ctx.closePath();
+    ctx.fill();
+
+    // ── 4. Pin wrap ──
+    const wrapY = -shaftLen + 1;
+    ctx.fillStyle = '#22aa22';
+    ctx.fillRect(-shaftR2 - 0.3, wrapY, (shaftR2 + 0.3) * 2, 3);
+
+    // ── 5. Fletching — two vanes ──
+    const vaneBaseY = -shaftLen;
+    const fLen = 18;
+    const fSpread = 14;
+
+    for (const d of [-1, 1]) {
+        const attachX = d * 1;
+        const attachY = vaneBaseY + 2;
+        const tipX = d * fSpread;
+        const tipY = vaneBaseY - fLen;
+        const innerX = 0;
+        const innerY = vaneBaseY - fLen * 0.7;
+
+        // Main vane — use base fletching color (flat)
+        ctx.fillStyle = colors.grad[0];
+        ctx.beginPath();
+        ctx.moveTo(attachX, attachY);
+        ctx.quadraticCurveTo(d * fSpread * 0.5, vaneBaseY - fLen * 0.4, tipX, tipY);
+        ctx.lineTo(innerX, innerY);
+        ctx.closePath();
+        ctx.fill();
+
+        // Inner face
+        ctx.fillStyle = colors.inner;
+        ctx.beginPath();
+        ctx.moveTo(attachX, attachY);
+        ctx.lineTo(innerX, innerY);
+        ctx.lineTo(innerX + d * 2, innerY + 3);
+        ctx.closePath();
+        ctx.fill();
+
+        // Outline
+        ctx.strokeStyle = colors.outline;
+        ctx.lineWidth = 0.6;
+        ctx.beginPath();
+        ctx.moveTo(attachX, attachY);
+        ctx.quadraticCurveTo(d * fSpread * 0.5, vaneBaseY - fLen * 0.4, tipX, tipY);
+        ctx.lineTo(innerX, innerY);
+        ctx.closePath();
+        ctx.stroke();
+    }
+
+    // ── 6. Nock — flat ──
+    const nockY = vaneBaseY - fLen * 0.7 - 2;
+    ctx.fillStyle = '#ddd';
+    ctx.beginPath(); ctx.arc(0, nockY, 2.5, 0, Math.PI * 2); ctx.fill();
+    ctx.strokeStyle = 'rgba(0,0,0,0.2)';
+    ctx.lineWidth = 0.5;
+    ctx.stroke();
+
+    ctx.restore();
+};
+
+/** Ghost of the target's face outline where a moving target will be when the arrow arrives. */
+export const drawLeadMarker = (ctx: Ctx2D, x: number, y: number, scale: number) => {
+    const r = FACE_RADIUS * scale;
+    ctx.save();
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.55)';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([6, 6]);
+    ctx.beginPath(); ctx.arc(x, y, r, 0, Math.PI * 2); ctx.stroke();
+    ctx.setLineDash([]);
+    ctx.beginPath();
+    ctx.moveTo(x - 8, y); ctx.lineTo(x + 8, y);
+    ctx.moveTo(x, y - 8); ctx.lineTo(x, y + 8);
+    ctx.stroke();
+    ctx.restore();
+};
+
+export const drawReticle = (ctx: Ctx2D, x: number, y: number, timerFraction: number) => {
+    ctx.save();
+    ctx.translate(x, y);
+
+    const outerR = 32;
+    const innerR = 20;
+
+    // ── Timer arc (outer ring) ──
+    // Background track (dim)
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)';
+    ctx.lineWidth = 5;
+    ctx.beginPath(); ctx.arc(0, 0, outerR, 0, Math.PI * 2); ctx.stroke();
+
+    // Active timer arc — color shifts green → yellow → red
+    const startAngle = -Math.PI / 2; // 12 o'clock
+    const endAngle = startAngle + timerFraction * Math.PI * 2;
+
+    let timerColor: string;
+    let glowColor: string;
+    if (timerFraction > 0.5) {
+        timerColor = '#4ade80';
+        glowColor = 'rgba(74, 222, 128, 0.3)';
+    } else if (timerFraction > 0.25) {
+        timerColor = '#facc15';
+        glowColor = 'rgba(250, 204, 21, 0.3)';
+    } else {
+        timerColor = '#ef4444';
+        glowColor = 'rgba(239, 68, 68, 0.3)';
+    }
+
+    // Glow behind the arc
+    ctx.strokeStyle = glowColor;
+    ctx.lineWidth = 9;
+    ctx.globalAlpha = 0.3;
+    ctx.beginPath(); ctx.arc(0, 0, outerR, startAngle, endAngle); ctx.stroke();
+    ctx.globalAlpha = 1;
+
+    // Main timer arc
+    ctx.strokeStyle = timerColor;
+    ctx.lineWidth = 5;
+    ctx.lineCap = 'round';
+    ctx.beginPath(); ctx.arc(0, 0, outerR, startAngle, endAngle); ctx.stroke();
+    ctx.lineCap = 'butt';
+
+    // ── Inner circle ──
+    ctx.strokeStyle = 'rgba(255, 50, 50, 0.7)';
+    ctx.lineWidth = 1.5;
+    ctx.beginPath(); ctx.arc(0, 0, innerR, 0, Math.PI * 2); ctx.stroke();
+
+    // ── Crosshair lines (with gap in center) ──
+    ctx.strokeStyle = 'rgba(255, 50, 50, 0.9)';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(0, -outerR + 2); ctx.lineTo(0, -6);
+    ctx.moveTo(0, 6); ctx.lineTo(0, outerR - 2);
+    ctx.moveTo(-outerR + 2, 0); ctx.lineTo(-6, 0);
+    ctx.moveTo(6, 0); ctx.lineTo(outerR - 2, 0);
+    ctx.stroke();
+
+    // ── Center dot ──
+    ctx.fillStyle = 'rgba(255, 50, 50, 0.9)';
+    ctx.beginPath(); ctx.arc(0, 0, 2, 0, Math.PI * 2); ctx.fill();
+
+    ctx.restore();
+};
+
+// Score flash colours by how good the score is on the face
+const SCORE_FLASH_COLORS: Record<ScoreTier, { color: string; glowColor: string }> = {
+    top: { color: '#c9a84c', glowColor: 'rgba(201, 168, 76, 0.4)' },
+    high: { color: '#c9a84c', glowColor: 'rgba(201, 168, 76, 0.4)' },
+    mid: { color: '#6ee7b7', glowColor: 'rgba(110, 231, 183, 0.3)' },
+    low: { color: '#94a3b8', glowColor: 'rgba(148, 163, 184, 0.2)' },
+    miss: { color: '#f87171', glowColor: 'rgba(248, 113, 113, 0.3)' },
+};
+
+/** Room the score flash needs around its text center at full size, glow and cheer included. */
+export const SCORE_FLASH_BOUNDS = { w: 420, h: 180, centerY: 90 };
+
+/** Largest the score flash text grows as it fades. */
+export const SCORE_FLASH_MAX_FONT = 102;
+
+/** Where the score flash sits on a w × h screen, and how it looks `scoreFlash` (1 → 0) into its fade. */
+export const scoreFlashPose = (scoreFlash: number, w: number, h: number) => ({
+    x: w / 2,
+    y: h * 0.42,
+    alpha: Math.min(scoreFlash * 1.5, 1),
+    fontSize: SCORE_FLASH_MAX_FONT - scoreFlash * 30,   // grows as it fades
+});
+
+/** The score just landed (or MISS), centered on (x, y); the top score's cheer sits below it. */
+export const drawScoreFlash = (ctx: Ctx2D, x: number, y: number, lastScore: number, face: TargetFace, fontSize: number) => {
+    ctx.save();
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    const scoreText = lastScore > 0 ? `+${lastScore}` : 'MISS';
+    const { color, glowColor } = SCORE_FLASH_COLORS[scoreTier(lastScore, face.maxScore)];
+
+    // Glow
+    ctx.shadowColor = glowColor;
+    ctx.shadowBlur = 24;
+    ctx.shadowOffsetX = 0;
+    ctx.shadowOffsetY = 0;
+
+    // Text stroke (outline) for contrast
+    ctx.font = `900 ${fontSize}px 'Playfair Display', Georgia, serif`;
+    ctx.strokeStyle = 'rgba(0,0,0,0.5)';
+    ctx.lineWidth = 4;
+    ctx.strokeText(scoreText, x, y);
+
+    // Fill
+    ctx.fillStyle = color;
+    ctx.fillText(scoreText, x, y);
+
+    ctx.shadowColor = 'transparent';
+    ctx.shadowBlur = 0;
+
+    if (lastScore === face.maxScore) {
+        ctx.font = `700 24px 'DM Sans', system-ui, sans-serif`;
+        ctx.letterSpacing = '0.15em';
+        ctx.strokeStyle = 'rgba(0,0,0,0.4)';
+        ctx.lineWidth = 3;
+        ctx.strokeText(face.cheer, x, y + 50);
+        ctx.fillStyle = '#c9a84c';
+        ctx.fillText(face.cheer, x, y + 50);
+        ctx.letterSpacing = '0px';
+    } else if (lastScore === 0) {
+        ctx.font = `500 18px 'DM Sans', system-ui, sans-serif`;
+        ctx.fillStyle = 'rgba(240, 236, 228, 0.45)';
+        // ctx.fillText('Better luck next time', x, y + 45);
+    }
+    ctx.restore();
+};
+
+export const drawHUD = (
+    ctx: Ctx2D,
+    w: number, h: number,
+    _windVal: Point,
+    room: Room | null,
+    myId: string | undefined,
+    spectating: boolean,
+    lastScore: number | null,
+    scoreFlash: number,
+    face: TargetFace
+) => {
+    // ── Score Flash (center of screen) ──
+    if (lastScore !== null && scoreFlash > 0) {
+        const pose = scoreFlashPose(scoreFlash, w, h);
+        ctx.save();
+        ctx.globalAlpha = pose.alpha;
+        drawScoreFlash(ctx, pose.x, pose.y, lastScore, face, pose.fontSize);
+        ctx.restore();
+    }
+
+    // ── Drag Zone Indicator ──
+    const dragZoneY = h * 0.6;
+    const isActive = room?.currentTurn === myId;
+
+    // Gradient overlay on drag zone
+    if (isActive) {
+        const zoneGrad = ctx.createLinearGradient(0, dragZoneY, 0, h);
+        zoneGrad.addColorStop(0, 'rgba(201, 168, 76, 0)');
+        zoneGrad.addColorStop(0.3, 'rgba(201, 168, 76, 0.02)');
+        zoneGrad.addColorStop(1, 'rgba(201, 168, 76, 0.06)');
+        ctx.fillStyle = zoneGrad;
+        ctx.fillRect(0, dragZoneY, w, h - dragZoneY);
+    }
+
+    // Divider line
+    ctx.save();
+    ctx.strokeStyle = isActive ? 'rgba(201, 168, 76, 0.2)' : 'rgba(240, 236, 228, 0.08)';
+    ctx.setLineDash([6, 8]);
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(40, dragZoneY);
+    ctx.lineTo(w - 40, dragZoneY);
+    ctx.stroke();
+    ctx.restore();
+
+    // Grip dots
+    if (isActive) {
+        ctx.fillStyle = 'rgba(201, 168, 76, 0.3)';
+        const dotCount = 5;
+        const dotSpacing = 8;
+        const dotsStartX = w / 2 - ((dotCount - 1) * dotSpacing) / 2;
+        for (let i = 0; i < dotCount; i++) {
+            ctx.beginPath();
+            ctx.arc(dotsStartX + i * dotSpacing, dragZoneY, 1.5, 0, Math.PI * 2);
+            ctx.fill();
+        }
+    }
+
+    // Bottom instruction
+    ctx.fillStyle = isActive ? 'rgba(240, 236, 228, 0.25)' : 'rgba(240, 236, 228, 0.12)';
+    ctx.font = `500 12px 'DM Sans', system-ui, sans-serif`;
+    ctx.textAlign = 'center';
+    let instruction = isActive ? 'Tap & drag below to aim · Release to shoot' : 'Waiting for opponent…';
+    if (spectating && room) {
+        const seat = room.players.findIndex(p => p.userId === room.currentTurn);
+        instruction = seat >= 0 ? `Spectating · ${displayName(room.players[seat], seat)} to shoot` : 'Spectating';
+    }
+    ctx.fillText(instruction, w / 2, h - 20);
+};
+
+export const drawTutorial = (ctx: Ctx2D, w: number, h: number) => {
+    const cx = w / 2;
+    const cy = h * 0.75;
+
+    const time = performance.now();
+    const slide = (Math.sin(time * 0.005) + 1) / 2;
+    const yOffset = slide * 40;
+
+    ctx.save();
+    ctx.translate(cx, cy + yOffset);
+
+    // Finger with gold tint
+    ctx.fillStyle = 'rgba(240, 236, 228, 0.85)';
+    ctx.shadowColor = 'rgba(0,0,0,0.4)';
+    ctx.shadowBlur = 8;
+    ctx.beginPath();
+    ctx.roundRect(-10, 0, 20, 30, 10);
+    ctx.fill();
+
+    // Ring indicator with gold
+    ctx.shadowBlur = 0;
+    ctx.strokeStyle = 'rgba(201, 168, 76, 0.4)';
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    ctx.arc(0, 0, 20 + slide * 10, 0, Math.PI * 2);
+    ctx.stroke();
+
+    ctx.restore();
+
+    // Text
+    ctx.save();
+    ctx.font = `600 16px 'DM Sans', system-ui, sans-serif`;
+    ctx.fillStyle = 'rgba(240, 236, 228, 0.8)';
+    ctx.textAlign = 'center';
+    ctx.shadowColor = 'rgba(0,0,0,0.6)';
+    ctx.shadowBlur = 4;
+    ctx.fillText('TAP & DRAG TO AIM', cx, cy - 58);
+    ctx.font = `500 11px 'DM Sans', system-ui, sans-serif`;
+    ctx.fillStyle = 'rgba(240, 236, 228, 0.45)';
+    ctx.fillText('or hold Space · WASD / arrows · gamepad A + stick, RT to shoot', cx, cy - 38);
+    ctx.restore();
+};
+
+/** Pinned arrows plus the one still bouncing in (overshoot + squash), around the shaken board. */
+export const drawLandedArrows = (ctx: Ctx2D, board: Point, projectiles: Readonly<ProjectileState>, useComplexShadow: boolean) => {
+    for (const pa of projectiles.pinned) {
+        drawPinnedArrow({
+            ctx,
+            x: board.x + pa.point.x,
+            y: board.y + pa.point.y,
+            animProgress: 1.0,
+            colors: paletteForSeat(pa.playerIndex),
+            useComplexShadow
+        });
+    }
+
+    const impact = projectiles.impact;
+    if (!impact) return;
+    const t = impactProgress(impact);
+
+    // Overshoot + damped bounce: starts at 1.15 (overshoot), settles to 1.0
+    const bounce = 1.0 + 0.15 * Math.cos(t * Math.PI * 2.5) * (1 - t);
+    // Squash: compress Y at impact, then relax
+    const squash = 1.0 - 0.12 * Math.cos(t * Math.PI * 3) * (1 - t);
+
+    ctx.save();
+    const ax = board.x + impact.hitPoint.x;
+    const ay = board.y + impact.hitPoint.y;
+    ctx.translate(ax, ay);
+    ctx.scale(bounce, squash);
+    ctx.translate(-ax, -ay);
+    drawPinnedArrow({
+        ctx,
+        x: ax,
+        y: ay,
+        animProgress: t,
+        colors: paletteForSeat(impact.playerIndex),
+        useComplexShadow
+    });
+    ctx.restore();
+};
+
+// ── Wind ──
+
+/** Shear at full sway: horizontal px per px of height above the pivot. */
+export const FOLIAGE_LEAN = 0.06;
+export const GRASS_LEAN = 0.35;
+
+/** Height of the foreground grass strip along the bottom of the screen. */
+export const GRASS_HEIGHT = 60;
+
+const FLAG_POLE_HEIGHT = 90;
+
+/** Grass tufts along a strip GRASS_HEIGHT tall, painted upright; renderers shear it to sway. */
+export const paintGrass = (ctx: Ctx2D, w: number, color: string) => {
+    ctx.strokeStyle = color;
+    ctx.lineCap = 'round';
+    for (let x = -10; x < w + 10; x += 14) {
+        const blades = 3 + Math.round(Math.abs(Math.sin(x * 0.37)) * 2);
+        for (let b = 0; b < blades; b++) {
+            const bladeH = 18 + Math.abs(Math.sin(x * 1.3 + b * 2.1)) * (GRASS_HEIGHT - 22);
+            const lean = Math.sin(x * 0.7 + b) * 6;
+            ctx.lineWidth = 1.5 + (b % 2);
+            ctx.beginPath();
+            ctx.moveTo(x + b * 3, GRASS_HEIGHT);
+            ctx.quadraticCurveTo(x + b * 3, GRASS_HEIGHT - bladeH * 0.6, x + b * 3 + lean, GRASS_HEIGHT - bladeH);
+            ctx.stroke();
+        }
+    }
+};
+
+/** Where the flag pole stands on the target frame (top-right corner). */
+export const flagMount = (board: Point, scale: number): Point => ({ x: board.x + 150 * scale, y: board.y - 156 * scale });
+
+/** Size of the area drawFlag covers around the pole base, unscaled: the cloth can stream either way. */
+export const FLAG_BOUNDS = { w: 120, h: FLAG_POLE_HEIGHT + 10 };
+
+/**
+ * Range flag on a pole whose base is at (x, y). Hangs limp in still air and
+ * streams out along the wind as it picks up, fluttering faster.
+ */
+export const drawFlag = (ctx: Ctx2D, x: number, y: number, scale: number, wind: Point, strength: number, now: number) => {
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.scale(scale, scale);
+
+    // Pole
+    ctx.fillStyle = '#d8d2c4';
+    ctx.fillRect(-1.5, -FLAG_POLE_HEIGHT, 3, FLAG_POLE_HEIGHT);
+    ctx.beginPath(); ctx.arc(0, -FLAG_POLE_HEIGHT, 2.5, 0, Math.PI * 2); ctx.fill();
+
+    // Cloth, drawn along +x and mirrored for a wind from the right
+    const dir = wind.x < 0 ? -1 : 1;
+    const droop = Math.min(1.4, Math.max(0, (1 - strength) * 1.2 + (wind.y / FULL_WIND) * 0.3));
+    const length = 34 + strength * 14;
+    const height = 20;
+    const flutter = 2 + strength * 5;
+    const phase = now * (0.005 + strength * 0.012);
+    const wave = (u: number) => Math.sin(u * 3 - phase) * flutter * u;
+
+    ctx.translate(0, -FLAG_POLE_HEIGHT + 3);
+    ctx.rotate(dir * droop);
+    ctx.scale(dir, 1);
+    ctx.fillStyle = '#e0452f';
+    ctx.beginPath();
+    ctx.moveTo(0, 0);
+    for (let i = 1; i <= 8; i++) ctx.lineTo(length * i / 8, wave(i / 8));
+    for (let i = 8; i >= 0; i--) ctx.lineTo(length * i / 8, height * (1 - i / 8 * 0.3) + wave(i / 8));
+    ctx.closePath();
+    ctx.fill();
+    // Stripe
+    ctx.strokeStyle = '#f6d04d';
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    for (let i = 0; i <= 8; i++) ctx.lineTo(length * i / 8, height * 0.45 * (1 - i / 8 * 0.3) + wave(i / 8));
+    ctx.stroke();
+    ctx.restore();
+};
+
+/** Wind-blown leaves and rain, in screen space. */
+export const drawDebris = (ctx: Ctx2D, weather: Readonly<WeatherState>) => {
+    const spec = weather.spec;
+    if (!spec) return;
+    ctx.save();
+    ctx.fillStyle = ctx.strokeStyle = spec.color;
+    ctx.lineWidth = 1;
+    for (const d of weather.debris) {
+        const alpha = debrisAlpha(d, weather.strength);
+        if (alpha <= 0.01) continue;
+        ctx.globalAlpha = alpha;
+        ctx.beginPath();
+        if (spec.kind === 'rain') {
+            ctx.moveTo(d.x, d.y);
+            ctx.lineTo(d.x - Math.cos(d.angle) * d.size, d.y - Math.sin(d.angle) * d.size);
+            ctx.stroke();
+        } else {
+            ctx.ellipse(d.x, d.y, d.size, d.size * 0.45, d.angle, 0, Math.PI * 2);
+            ctx.fill();
+        }
+    }
+    ctx.restore();
+};
+
+/** The theme's ambient particles, in screen space over the world and under the HUD. */
+export const drawAmbient = (ctx: Ctx2D, ambient: Readonly<AmbientState>, now: number) => {
+    const spec = ambient.spec;
+    if (!spec) return;
+    ctx.save();
+    ctx.fillStyle = spec.color;
+    if (spec.kind === 'fireflies') {
+        ctx.shadowColor = spec.color;
+        ctx.shadowBlur = 8;
+    }
+    for (const p of ambient.particles) {
+        const alpha = ambientAlpha(spec.kind, p, now);
+        if (alpha <= 0.01) continue;
+        ctx.globalAlpha = alpha;
+        ctx.beginPath(); ctx.arc(p.x, p.y, p.r, 0, Math.PI * 2); ctx.fill();
+    }
+    ctx.restore();
+};
+
+/**
+ * Draws the HUD (score flash, drag zone, tutorial) or the game-over dim, in screen space.
+ * Pass withScoreFlash = false to leave the score flash to the caller.
+ */
+export const drawOverlay = (ctx: Ctx2D, frame: SceneFrame, withScoreFlash = true) => {
+    const { w, h } = frame.layout;
+    if (frame.dimmed) {
+        // The game over screen itself is rendered by React; just darken the canvas
+        ctx.fillStyle = 'rgba(6, 14, 8, 0.7)';
+        ctx.fillRect(0, 0, w, h);
+    } else if (frame.hud) {
+        const hud = frame.hud;
+        drawHUD(ctx, w, h, frame.wind, hud.room, hud.playerId, hud.spectating, hud.lastScore, withScoreFlash ? hud.scoreFlash : 0, frame.face);
+        // Tutorial overlay (Round 1 only, before interaction)
+        if (hud.tutorial) drawTutorial(ctx, w, h);
+    }
+};
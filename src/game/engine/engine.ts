@@ -0,0 +1,389 @@
+/**
+ * Game engine — owns the canvas, the frame loop and the aim, camera,
+ * projectile, weather and ambient systems. It knows nothing about React or
+ * sockets: the host feeds it room state, pointer input and shot results, and
+ * gets shots and sound cues back through hooks.
+ *
+ *   const engine = createGameEngine(canvas, { shoot, sound });
+ *   engine.resize(innerWidth, innerHeight, devicePixelRatio);
+ *   engine.setRoom(room);
+ *   engine.start();
+ */
+import type { Room, Point, ShotResult, TargetMotion } from '../../types';
+import type { AimInputSource } from '../aimInput';
+import { THEMES, DEFAULT_THEME, type ThemeId } from '../themes';
+import { advancePhase, targetOffset } from '../target';
+import { DEFAULT_DISTANCE, roomDistance } from '../distance';
+import { roomFace } from '../faces';
+import { dailySpawnRandom } from '../daily';
+import {
+    DEFAULT_ENGINE_CONFIG,
+    REFERENCE_FRAME_MS,
+    MAX_FRAME_MS,
+    SOLO_HOLD_DURATION,
+    SCORE_FLASH_DURATION,
+    withDistance,
+    type EngineConfig,
+} from './config';
+import { createAimSystem } from './input';
+import { createCamera } from './camera';
+import { createProjectileSystem } from './projectile';
+import { createAmbientSystem } from './ambient';
+import { createWeatherSystem } from './weather';
+import { createSceneRenderer, computeLayout, type RendererKind } from './scene';
+
+export type EngineSound =
+    | { type: 'aim' }
+    | { type: 'release' }
+    | { type: 'flight'; duration: number }
+    | { type: 'impact'; score: number; maxScore: number }
+    | { type: 'matchEnd' };
+
+export interface EngineHooks {
+    /** The player let go (or the shot clock ran out). aimDuration is ms from draw to release. */
+    shoot(aim: Point, aimDuration: number): void;
+    sound?(cue: EngineSound): void;
+    /** Nothing can be drawn on this canvas any more; the host should start over on a fresh one. */
+    canvasLost?(): void;
+}
+
+/** Who is looking at the canvas and whether they may aim right now. */
+export interface EngineViewer {
+    playerId: string | undefined;
+    canAim: boolean;
+    spectating: boolean;
+}
+
+export interface GameEngine {
+    /** Viewport size in CSS pixels. */
+    resize(width: number, height: number, dpr: number): void;
+    setRoom(room: Room | null): void;
+    setViewer(viewer: EngineViewer): void;
+    setConfig(config: Partial<EngineConfig>): void;
+    /** Environment: background, palette and ambient particles. */
+    setTheme(theme: ThemeId): void;
+    shotResult(result: ShotResult): void;
+    /** Drop arrows, flights, the score flash and camera moves, e.g. when a replay jumps elsewhere. */
+    reset(): void;
+    /** Polled once per frame (keyboard, gamepad). Returns a remover. */
+    addInputSource(source: AimInputSource): () => void;
+    // Pointer input, in CSS pixels relative to the canvas
+    pointerDown(x: number, y: number): void;
+    pointerMove(x: number, y: number): void;
+    pointerUp(): void;
+    /** Advance every system by deltaTime ms without drawing. */
+    step(deltaTime: number, now: number): void;
+    draw(): void;
+    start(): void;
+    stop(): void;
+}
+
+// Workers get requestAnimationFrame in current browsers; fall back to a 60fps timer where they don't
+const requestFrame = typeof requestAnimationFrame === 'function'
+    ? requestAnimationFrame
+    : (callback: FrameRequestCallback) => setTimeout(() => callback(performance.now()), REFERENCE_FRAME_MS);
+const cancelFrame = typeof cancelAnimationFrame === 'function' ? cancelAnimationFrame : clearTimeout;
+
+// A synced phase this far (in cycles) from our own clock's is a real change, not network jitter
+const MOTION_RESYNC = 0.03;
+
+const isGameOver = (room: Room) => room.mode === 'solo' ? room.timeRemaining <= 0 : room.round > room.maxRounds;
+
+export const createGameEngine = (
+    canvas: HTMLCanvasElement | OffscreenCanvas,
+    hooks: EngineHooks,
+    random: () => number = Math.random,
+    renderer: RendererKind = 'webgl',
+): GameEngine => {
+    const scene = createSceneRenderer(canvas, renderer);
+    // Tuning as set by the host, and as applied at the room's distance
+    const tuning: EngineConfig = { ...DEFAULT_ENGINE_CONFIG };
+    const config: EngineConfig = { ...DEFAULT_ENGINE_CONFIG };
+    let distance = DEFAULT_DISTANCE;
+    const aim = createAimSystem(random);
+    const camera = createCamera(random);
+    const projectiles = createProjectileSystem(scene?.dustPerImpact ?? 0, random);
+    const ambient = createAmbientSystem(random);
+    const weather = createWeatherSystem(random);
+
+    let layout = computeLayout(canvas.width, canvas.height);
+    let dpr = 1;
+    let room: Room | null = null;
+    let viewer: EngineViewer = { playerId: undefined, canAim: false, spectating: false };
+    let wind: Point = { x: 0, y: 0 };
+    // Moving target: the room's motion, and the local time its phase was sampled at
+    let motion: { spec: TargetMotion; anchor: number } | null = null;
+    let theme = THEMES[DEFAULT_THEME];
+    ambient.reset(theme.ambient, layout);
+    weather.reset(theme.debris, layout);
+    let inputSources: AimInputSource[] = [];
+    let lastPointer: Point | null = null;
+
+    // Round-to-round feedback
+    let hasInteracted = false;         // hides the tutorial
+    let pendingScore: number | null = null;   // shown once the arrow lands
+    let lastScore: number | null = null;
+    let scoreFlash = 0;
+    let gameOverTimer = 0;
+
+    let frameId: number | null = null;
+    let lastFrameTime = 0;
+    let canvasLost = false;
+
+    // ── Target ──
+
+    const applyDistance = (meters: number) => {
+        const previousScale = config.targetScale;
+        distance = meters;
+        Object.assign(config, withDistance(tuning, meters));
+        // Arrows already in the board stay in their rings
+        if (config.targetScale !== previousScale) projectiles.rescale(config.targetScale / previousScale);
+    };
+
+    // Where the target center is at `time` (performance.now() clock)
+    const targetAt = (time: number): Point => {
+        if (!motion) return layout.target;
+        const offset = targetOffset(motion.spec, advancePhase(motion.spec, time - motion.anchor));
+        return { x: layout.target.x + offset.x, y: layout.target.y + offset.y };
+    };
+
+    const syncMotion = (next: TargetMotion | undefined) => {
+        if (!next) {
+            motion = null;
+            return;
+        }
+        const now = performance.now();
+        if (motion && motion.spec.path === next.path && motion.spec.amplitude === next.amplitude && motion.spec.period === next.period) {
+            // Same path: keep our clock unless the server's phase has drifted from it
+            const ours = advancePhase(motion.spec, now - motion.anchor);
+            const drift = Math.abs(ours - next.phase);
+            if (Math.min(drift, 1 - drift) < MOTION_RESYNC) return;
+        }
+        motion = { spec: next, anchor: now };
+    };
+
+    // ── Aiming ──
+
+    // Start drawing the bow. Returns false if aiming isn't possible right now.
+    const beginAim = () => {
+        if (room && isGameOver(room)) return false;
+        if (!viewer.canAim || aim.state.aiming || camera.isHolding() || projectiles.state.flight) return false;
+
+        // Daily runs spawn the reticle where everyone else's did on this shot
+        aim.begin(performance.now(), room?.daily ? dailySpawnRandom(room.daily.date, room.round) : undefined);
+        hasInteracted = true;
+        hooks.sound?.({ type: 'aim' });
+        lastPointer = null;
+        lastScore = null;
+        return true;
+    };
+
+    const applyAimDrag = (dx: number, dy: number) => {
+        if (!viewer.canAim) return;
+        aim.drag(dx, dy, config);
+    };
+
+    // Shared by manual release and shot-clock auto-fire
+    const fire = () => {
+        const aimDuration = performance.now() - aim.state.startedAt;
+        hooks.shoot(aim.release(), aimDuration);
+    };
+
+    // Let the bow down without shooting
+    const cancelAim = () => {
+        aim.cancel();
+        lastPointer = null;
+    };
+
+    const endAim = () => {
+        if (!viewer.canAim || !aim.state.aiming) return;
+        hooks.sound?.({ type: 'release' });
+        fire();
+    };
+
+    // ── Frame ──
+
+    const step = (deltaTime: number, now: number) => {
+        // Keyboard / gamepad aim (virtual drags through the same impulse model)
+        for (const source of inputSources) {
+            const intent = source.read(deltaTime / 1000);
+            if (intent.cancel) {
+                cancelAim();
+                continue;
+            }
+            if (intent.draw) beginAim();
+            if (intent.drag.x !== 0 || intent.drag.y !== 0) applyAimDrag(intent.drag.x, intent.drag.y);
+            if (intent.release) endAim();
+        }
+
+        let shotClockExpired = false;
+        if (viewer.canAim) {
+            shotClockExpired = aim.update(deltaTime, now, config);
+        } else if (aim.state.aiming || lastPointer) {
+            cancelAim();
+        }
+
+        const target = targetAt(now);
+        camera.update(deltaTime, { target, aiming: aim.state.aiming, flight: projectiles.state.flight }, config);
+
+        ambient.update(deltaTime, layout, wind);
+        weather.update(deltaTime, layout, wind);
+
+        const landed = projectiles.update(deltaTime, now, { origin: layout.bow, target, shake: camera.state.shake }, config);
+        if (landed) {
+            camera.shake();
+            // Solo: shorter hold for rapid-fire feel
+            camera.holdOn(landed.hitPoint, room?.mode === 'solo' ? SOLO_HOLD_DURATION : config.holdTime * 1000);
+            // Now show the score
+            if (pendingScore !== null) {
+                hooks.sound?.({ type: 'impact', score: pendingScore, maxScore: roomFace(room).maxScore });
+                lastScore = pendingScore;
+                scoreFlash = 1;
+                pendingScore = null;
+            }
+        }
+
+        if (room && isGameOver(room)) {
+            if (gameOverTimer === 0) hooks.sound?.({ type: 'matchEnd' });
+            gameOverTimer += deltaTime;
+        } else {
+            gameOverTimer = 0;
+            if (scoreFlash > 0) scoreFlash = Math.max(0, scoreFlash - deltaTime / SCORE_FLASH_DURATION);
+            if (shotClockExpired) fire();
+        }
+    };
+
+    const draw = () => {
+        if (!scene || scene.lost) {
+            if (!canvasLost) hooks.canvasLost?.();
+            canvasLost = true;
+            return;
+        }
+        const over = room !== null && isGameOver(room);
+        const now = performance.now();
+        const reticle = viewer.canAim && aim.state.aiming ? { point: aim.state.reticle, timer: aim.state.timer } : null;
+        scene.render({
+            time: now,
+            layout,
+            target: targetAt(now),
+            // Where a moving target will be when an arrow released now arrives
+            lead: motion && reticle ? targetAt(now + config.flightDuration) : null,
+            dpr,
+            config,
+            camera: camera.state,
+            projectiles: projectiles.state,
+            wind,
+            theme,
+            face: roomFace(room),
+            ambient: ambient.state,
+            weather: weather.state,
+            reticle,
+            hud: room && !over ? {
+                room,
+                playerId: viewer.playerId,
+                spectating: viewer.spectating,
+                lastScore,
+                scoreFlash,
+                tutorial: room.round === 1 && !hasInteracted && viewer.canAim && !aim.state.aiming,
+            } : null,
+            dimmed: over && gameOverTimer > config.gameOverDelay,
+        });
+    };
+
+    const frame = () => {
+        // Scheduled first, so a hook that stops the engine mid-frame isn't undone
+        frameId = requestFrame(frame);
+        const now = performance.now();
+        const deltaTime = Math.min(now - lastFrameTime, MAX_FRAME_MS);
+        lastFrameTime = now;
+        step(deltaTime, now);
+        draw();
+    };
+
+    return {
+        resize(width, height, pixelRatio) {
+            dpr = pixelRatio;
+            layout = computeLayout(width, height);
+            canvas.width = width * dpr;
+            canvas.height = height * dpr;
+            ambient.reset(theme.ambient, layout);
+            weather.reset(theme.debris, layout);
+        },
+
+        setRoom(next) {
+            room = next;
+            if (next?.wind) wind = next.wind;
+            syncMotion(next?.targetMotion);
+            const meters = next ? roomDistance(next) : DEFAULT_DISTANCE;
+            if (meters !== distance) applyDistance(meters);
+        },
+
+        setViewer(next) {
+            viewer = next;
+        },
+
+        setConfig(next) {
+            Object.assign(tuning, next);
+            applyDistance(distance);
+        },
+
+        setTheme(id) {
+            if (theme.id === id) return;
+            theme = THEMES[id];
+            ambient.reset(theme.ambient, layout);
+            weather.reset(theme.debris, layout);
+        },
+
+        shotResult(result) {
+            // Fletching color follows the shooter's seat
+            const playerIndex = room?.players.findIndex(p => p.userId === result.player) ?? 0;
+            projectiles.launch(result.path[0], playerIndex, wind, config);
+            pendingScore = result.score; // Defer until arrow lands
+            hooks.sound?.({ type: 'flight', duration: config.flightDuration });
+            camera.bump();
+        },
+
+        reset() {
+            projectiles.reset();
+            camera.reset();
+            cancelAim();
+            pendingScore = null;
+            lastScore = null;
+            scoreFlash = 0;
+            gameOverTimer = 0;
+        },
+
+        addInputSource(source) {
+            inputSources = [...inputSources, source];
+            return () => { inputSources = inputSources.filter(s => s !== source); };
+        },
+
+        pointerDown(x, y) {
+            // Only allow aiming from the bottom 40% of the screen
+            if (y < layout.aimZoneY) return;
+            if (beginAim()) lastPointer = { x, y };
+        },
+
+        pointerMove(x, y) {
+            if (!viewer.canAim || !aim.state.aiming) return;
+            if (lastPointer) applyAimDrag(x - lastPointer.x, y - lastPointer.y);
+            lastPointer = { x, y };
+        },
+
+        pointerUp: endAim,
+
+        step,
+        draw,
+
+        start() {
+            if (frameId !== null) return;
+            lastFrameTime = performance.now();
+            frame();
+        },
+
+        stop() {
+            if (frameId !== null) cancelFrame(frameId);
+            frameId = null;
+        },
+    };
+};
@@ -0,0 +1,232 @@
+/**
+ * Engine host — runs the engine in a render worker when the browser can hand
+ * a canvas to one (transferControlToOffscreen), and on the main thread when it
+ * can't. If the worker fails to start, or the canvas can't be drawn on, the
+ * host swaps in a fresh canvas and carries on on the main thread. Either way
+ * the caller gets the same surface.
+ */
+import type { Room } from '../../types';
+import type { AimInputSource } from '../aimInput';
+import type { ThemeId } from '../themes';
+import type { EngineConfig } from './config';
+import type { RendererKind } from './scene';
+import { createGameEngine, type GameEngine, type EngineHooks, type EngineViewer } from './engine';
+import type { EngineCommand, EngineEvent } from './protocol';
+
+export type EngineHost = Omit<GameEngine, 'step' | 'draw'> & {
+    readonly offThread: boolean;
+    /** The canvas being drawn on; replaced when drawing has to start over on the main thread. */
+    readonly canvas: HTMLCanvasElement;
+    /** Stop rendering and release the worker. The canvas can't be reused afterwards. */
+    dispose(): void;
+};
+
+/** Where the engine runs; the host can replace it without the caller noticing. */
+type Backend = Omit<EngineHost, 'offThread' | 'canvas'>;
+
+const canRenderOffThread = (canvas: HTMLCanvasElement) =>
+    typeof Worker !== 'undefined' && typeof canvas.transferControlToOffscreen === 'function';
+
+const isIdle = ({ drag, draw, release, cancel }: ReturnType<AimInputSource['read']>) =>
+    drag.x === 0 && drag.y === 0 && !draw && !release && !cancel;
+
+// ── Main thread ──
+
+const createLocalBackend = (canvas: HTMLCanvasElement, hooks: EngineHooks, renderer?: RendererKind): Backend => {
+    const engine = createGameEngine(canvas, hooks, Math.random, renderer);
+    return { ...engine, dispose: engine.stop };
+};
+
+// ── Worker ──
+
+/** How long a worker gets to report it's running before drawing moves back to the main thread (ms). */
+const WORKER_READY_TIMEOUT = 3000;
+
+/** `fail` is called if the worker dies, never starts, or can't draw on the canvas it was given. */
+const createWorkerBackend = (
+    canvas: HTMLCanvasElement,
+    hooks: EngineHooks,
+    fail: (reason: unknown, renderer: RendererKind) => void,
+): Backend => {
+    const worker = new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' });
+    let offscreen: OffscreenCanvas;
+    try {
+        offscreen = canvas.transferControlToOffscreen();
+    } catch (err) {
+        worker.terminate();
+        throw err;
+    }
+    const send = (command: EngineCommand, transfer: Transferable[] = []) => worker.postMessage(command, transfer);
+
+    const readyTimer = setTimeout(() => fail('no ready message', 'webgl'), WORKER_READY_TIMEOUT);
+
+    worker.addEventListener('message', (e: MessageEvent<EngineEvent>) => {
+        const event = e.data;
+        if (event.type === 'ready') clearTimeout(readyTimer);
+        else if (event.type === 'shoot') hooks.shoot(event.aim, event.aimDuration);
+        else if (event.type === 'sound') hooks.sound?.(event.cue);
+        else if (event.type === 'canvasLost') fail('canvas lost', 'canvas2d');   // WebGL let the worker down; the main thread won't do better
+    });
+    worker.addEventListener('error', (e) => fail(e.message, 'webgl'));
+
+    send({ type: 'init', canvas: offscreen }, [offscreen]);
+
+    // Keyboard and gamepad need window / navigator, so they're polled here and only
+    // non-empty intents cross to the worker.
+    let inputSources: AimInputSource[] = [];
+    let pollId: number | null = null;
+    let lastPoll = 0;
+    const poll = () => {
+        const now = performance.now();
+        const dtSec = (now - lastPoll) / 1000;
+        lastPoll = now;
+        for (const source of inputSources) {
+            const intent = source.read(dtSec);
+            if (!isIdle(intent)) send({ type: 'aimIntent', intent });
+        }
+        pollId = requestAnimationFrame(poll);
+    };
+    const stopPolling = () => {
+        if (pollId !== null) cancelAnimationFrame(pollId);
+        pollId = null;
+    };
+
+    return {
+        resize: (width, height, dpr) => send({ type: 'resize', width, height, dpr }),
+        setRoom: (room) => send({ type: 'setRoom', room }),
+        setViewer: (viewer) => send({ type: 'setViewer', viewer }),
+        setConfig: (config) => send({ type: 'setConfig', config }),
+        setTheme: (theme) => send({ type: 'setTheme', theme }),
+        shotResult: (result) => send({ type: 'shotResult', result }),
+        reset: () => send({ type: 'reset' }),
+        addInputSource(source) {
+            inputSources = [...inputSources, source];
+            return () => { inputSources = inputSources.filter(s => s !== source); };
+        },
+        pointerDown: (x, y) => send({ type: 'pointerDown', x, y }),
+        pointerMove: (x, y) => send({ type: 'pointerMove', x, y }),
+        pointerUp: () => send({ type: 'pointerUp' }),
+        start() {
+            send({ type: 'start' });
+            if (pollId !== null) return;
+            lastPoll = performance.now();
+            poll();
+        },
+        stop() {
+            send({ type: 'stop' });
+            stopPolling();
+        },
+        dispose() {
+            clearTimeout(readyTimer);
+            stopPolling();
+            worker.terminate();
+        },
+    };
+};
+
+// ── Host ──
+
+export const createEngineHost = (canvas: HTMLCanvasElement, hooks: EngineHooks): EngineHost => {
+    // What the engine has been told so far, so a replacement can take over where it left off
+    const latest: {
+        size?: [number, number, number];
+        room?: Room | null;
+        viewer?: EngineViewer;
+        config: Partial<EngineConfig>;
+        theme?: ThemeId;
+        running: boolean;
+    } = { config: {}, running: false };
+    const inputSources = new Map<AimInputSource, () => void>();   // each with its remover on the current backend
+    let current = canvas;
+    let offThread = false;
+    let renderer: RendererKind = 'webgl';
+    let disposed = false;
+
+    // The old canvas belongs to the worker, or to a context that can no longer draw,
+    // so start over on a fresh one on the main thread and replay everything onto it
+    const replace = (reason: unknown, next: RendererKind) => {
+        if (disposed || (!offThread && renderer === 'canvas2d')) return;   // nothing left to fall back to
+        console.warn(`Drawing with ${next} on the main thread:`, reason);
+        backend.dispose();
+        inputSources.forEach(remove => remove());
+
+        const fresh = current.cloneNode(false) as HTMLCanvasElement;
+        current.replaceWith(fresh);
+        current = fresh;
+        offThread = false;
+        renderer = next;
+        backend = createLocalBackend(fresh, localHooks, next);
+        if (latest.size) backend.resize(...latest.size);
+        if (latest.theme) backend.setTheme(latest.theme);
+        backend.setConfig(latest.config);
+        if (latest.viewer) backend.setViewer(latest.viewer);
+        if (latest.room !== undefined) backend.setRoom(latest.room);
+        for (const source of inputSources.keys()) inputSources.set(source, backend.addInputSource(source));
+        if (latest.running) backend.start();
+    };
+    const localHooks: EngineHooks = { ...hooks, canvasLost: () => replace('canvas lost', 'canvas2d') };
+
+    const initialBackend = (): Backend => {
+        if (canRenderOffThread(canvas)) {
+            try {
+                const worker = createWorkerBackend(canvas, hooks, replace);
+                offThread = true;
+                return worker;
+            } catch (err) {
+                // Thrown before the canvas was transferred, so it can still be drawn on here
+                console.warn('Render worker unavailable, drawing on the main thread:', err);
+            }
+        }
+        return createLocalBackend(canvas, localHooks);
+    };
+    let backend = initialBackend();
+
+    return {
+        get offThread() { return offThread; },
+        get canvas() { return current; },
+        resize(width, height, dpr) {
+            latest.size = [width, height, dpr];
+            backend.resize(width, height, dpr);
+        },
+        setRoom(room) {
+            latest.room = room;
+            backend.setRoom(room);
+        },
+        setViewer(viewer) {
+            latest.viewer = viewer;
+            backend.setViewer(viewer);
+        },
+        setConfig(config) {
+            latest.config = { ...latest.config, ...config };
+            backend.setConfig(config);
+        },
+        setTheme(theme) {
+            latest.theme = theme;
+            backend.setTheme(theme);
+        },
+        shotResult: (result) => backend.shotResult(result),
+        reset: () => backend.reset(),
+        addInputSource(source) {
+            inputSources.set(source, backend.addInputSource(source));
+            return () => {
+                inputSources.get(source)?.();
+                inputSources.delete(source);
+            };
+        },
+        pointerDown: (x, y) => backend.pointerDown(x, y),
+        pointerMove: (x, y) => backend.pointerMove(x, y),
+        pointerUp: () => backend.pointerUp(),
+        start() {
+            latest.running = true;
+            backend.start();
+        },
+        stop() {
+            latest.running = false;
+            backend.stop();
+        },
+        dispose() {
+            disposed = true;
+            backend.dispose();
+        },
+    };
+};
@@ -0,0 +1,125 @@
+/**
+ * Aim system — the reticle's velocity model. Every input (pointer drags,
+ * keyboard, gamepad) is reduced to drag impulses here, then damped, clamped
+ * and integrated each frame. Whether aiming is allowed is the engine's call.
+ */
+import type { Point } from '../../types';
+import { decayFor, type EngineConfig } from './config';
+
+/** Reticle is kept within this radius of the target center (px). */
+const MAX_AIM_RADIUS = 160;
+
+/** Aiming longer than this tightens damping a little (s). */
+const PRESSURE_AFTER = 3;
+
+export interface AimState {
+    aiming: boolean;
+    reticle: Point;        // offset from target center (px)
+    velocity: Point;       // px/s
+    startedAt: number;     // performance.now() when the draw began
+    timer: number;         // shot clock, 1 (full) → 0 (auto-fire)
+}
+
+export interface AimSystem {
+    readonly state: Readonly<AimState>;
+    /** Draw the bow: the reticle spawns near the target edge, placed by `spawn` when given. */
+    begin(now: number, spawn?: () => number): void;
+    /** A drag of (dx, dy) screen pixels becomes an aim impulse. */
+    drag(dx: number, dy: number, config: EngineConfig): void;
+    /** Stop aiming. Returns where the arrow was released. */
+    release(): Point;
+    /** Drop any aim in progress (e.g. the turn passed). */
+    cancel(): void;
+    /** Advance the reticle and shot clock. Returns true when the clock runs out. */
+    update(deltaTime: number, now: number, config: EngineConfig): boolean;
+}
+
+export const createAimSystem = (random: () => number = Math.random): AimSystem => {
+    const state: AimState = {
+        aiming: false,
+        reticle: { x: 0, y: 0 },
+        velocity: { x: 0, y: 0 },
+        startedAt: 0,
+        timer: 0,
+    };
+
+    return {
+        state,
+
+        begin(now, spawn = random) {
+            // Random start position around the target edge
+            const spawnRadius = 100;
+            const slotIndex = Math.floor(spawn() * 6);
+            const spawnAngle = (slotIndex / 6) * Math.PI * 2 + (spawn() - 0.5) * 0.3;
+            state.reticle = {
+                x: Math.cos(spawnAngle) * spawnRadius * (0.6 + spawn() * 0.4),
+                y: Math.sin(spawnAngle) * spawnRadius * (0.6 + spawn() * 0.4),
+            };
+            state.velocity = { x: 0, y: 0 };
+            state.startedAt = now;
+            state.timer = 1.0;
+            state.aiming = true;
+        },
+
+        drag(dx, dy, config) {
+            if (!state.aiming) return;
+            state.velocity.x += dx * config.impulseStrength;
+            state.velocity.y += dy * config.impulseStrength;
+        },
+
+        release() {
+            state.aiming = false;
+            state.velocity = { x: 0, y: 0 };
+            return { ...state.reticle };
+        },
+
+        cancel() {
+            state.aiming = false;
+            state.reticle = { x: 0, y: 0 };
+            state.velocity = { x: 0, y: 0 };
+        },
+
+        update(deltaTime, now, config) {
+            if (!state.aiming) return false;
+
+            const dtSec = deltaTime / 1000;
+            const vel = state.velocity;
+            const pos = state.reticle;
+
+            // Time pressure: increase damping slightly after a few seconds of aiming
+            const aimElapsed = (now - state.startedAt) / 1000;
+            const damping = aimElapsed > PRESSURE_AFTER ? Math.max(config.dampingFactor - 0.003, 0.90) : config.dampingFactor;
+
+            // Apply damping (frame-rate independent)
+            const frameDamp = decayFor(damping, deltaTime);
+            vel.x *= frameDamp;
+            vel.y *= frameDamp;
+
+            // Clamp velocity magnitude
+            const speed = Math.sqrt(vel.x * vel.x + vel.y * vel.y);
+            if (speed > config.maxVelocity) {
+                vel.x = (vel.x / speed) * config.maxVelocity;
+                vel.y = (vel.y / speed) * config.maxVelocity;
+            }
+
+            // Integrate position
+            pos.x += vel.x * dtSec;
+            pos.y += vel.y * dtSec;
+
+            // Clamp to target area
+            const dist = Math.sqrt(pos.x * pos.x + pos.y * pos.y);
+            if (dist > MAX_AIM_RADIUS) {
+                pos.x = (pos.x / dist) * MAX_AIM_RADIUS;
+                pos.y = (pos.y / dist) * MAX_AIM_RADIUS;
+                // Kill outward velocity component at boundary
+                const nx = pos.x / MAX_AIM_RADIUS, ny = pos.y / MAX_AIM_RADIUS;
+                const dot = vel.x * nx + vel.y * ny;
+                if (dot > 0) { vel.x -= dot * nx; vel.y -= dot * ny; }
+            }
+
+            // Shot clock
+            state.timer = Math.max(0, state.timer - deltaTime / (config.timerSeconds * 1000));
+            return state.timer <= 0;
+        },
+    };
+};
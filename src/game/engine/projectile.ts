@@ -0,0 +1,235 @@
+/**
+ * Projectile system — an arrow's flight from the bow to the board, the
+ * landing (bounce, dust, flash) and the arrows left pinned afterwards.
+ * Positions are in CSS pixels; hit points are offsets from the target center.
+ */
+import type { Point } from '../../types';
+import {
+    IMPACT_DURATION,
+    IMPACT_FLASH_DURATION,
+    TRAIL_DURATION,
+    PARTICLE_GRAVITY,
+    type EngineConfig,
+} from './config';
+
+export interface TrailPoint { x: number; y: number; angle: number; time: number; }
+
+// Spawn state only — position follows from the time since `born`, so the GPU can animate it too.
+// Velocities in px/s, times in ms.
+export interface Particle { x: number; y: number; vx: number; vy: number; born: number; maxLife: number; r: number; }
+
+export interface PinnedArrow { point: Point; playerIndex: number; }
+
+export interface Flight {
+    elapsed: number;      // ms elapsed (slow-mo stretches this)
+    duration: number;     // total flight ms
+    hitPoint: Point;
+    playerIndex: number;  // who shot this arrow
+    wind: Point;          // wind at release
+    // Resolved against the layout on the first frame; end follows the target
+    resolved: boolean;
+    start: Point;
+    end: Point;
+    arcHeight: number;    // gravity arc magnitude
+    // Where the arrow is this frame
+    position: Point;
+    angle: number;
+    trail: TrailPoint[];
+}
+
+export interface Impact {
+    elapsed: number;      // ms since landing
+    hitPoint: Point;
+    playerIndex: number;
+}
+
+export interface ProjectileState {
+    flight: Flight | null;
+    impact: Impact | null;    // overshoot + bounce + squash while the arrow settles
+    pinned: PinnedArrow[];
+    particles: Particle[];    // impact dust; replaced (not mutated) when it changes
+    flash: { time: number; hitPoint: Point };   // impact flash countdown (ms)
+}
+
+/** Where the flight is resolved from: the bow below the screen and the target (where it is now, and its shake). */
+export interface FlightFrame {
+    origin: Point;
+    target: Point;
+    shake: Point;
+}
+
+export interface ProjectileSystem {
+    readonly state: ProjectileState;
+    launch(hitPoint: Point, playerIndex: number, wind: Point, config: EngineConfig): void;
+    /** Scale every hit point on the board, when the target is redrawn at another size. */
+    rescale(factor: number): void;
+    /** Advance one frame. Returns the flight that landed this frame, if any. */
+    update(deltaTime: number, now: number, frame: FlightFrame, config: EngineConfig): Flight | null;
+    /** Clear the board: no arrows flying, landing or pinned, and no dust. */
+    reset(): void;
+}
+
+// ── Flight path ──
+
+/** Flight position at progress t (0 → 1): linear interpolation + gravity arc + wind drift. */
+export const flightPosition = (flight: Flight, t: number, config: EngineConfig): Point => {
+    const gravityArc = -4 * flight.arcHeight * t * (t - 1);
+    const windDriftX = flight.wind.x * config.windDriftXFactor * t * t;
+    const windDriftY = flight.wind.y * config.windDriftYFactor * t * t;
+    return {
+        x: flight.start.x + (flight.end.x - flight.start.x) * t + windDriftX,
+        y: flight.start.y + (flight.end.y - flight.start.y) * t - gravityArc + windDriftY,
+    };
+};
+
+/** Arrow heading at progress t, easing into the board over the last 20%. */
+export const flightAngle = (flight: Flight, t: number, config: EngineConfig): number => {
+    const here = flightPosition(flight, t, config);
+    const ahead = flightPosition(flight, Math.min(t + 0.02, 1), config);
+    let angle = Math.atan2(ahead.y - here.y, ahead.x - here.x);
+
+    if (t > 0.8) {
+        const finalAngle = Math.atan2(flight.end.y - here.y, flight.end.x - here.x);
+        const blend = (t - 0.8) / 0.2;
+        angle = angle * (1 - blend * blend) + finalAngle * blend * blend;
+    }
+    return angle;
+};
+
+export const flightProgress = (flight: Flight) => Math.min(flight.elapsed / flight.duration, 1);
+
+export const impactProgress = (impact: Impact) => Math.min(impact.elapsed / IMPACT_DURATION, 1);
+
+/** Where a dust particle is at `now`, and how much of its life is left (1 → 0). */
+export const particleAt = (p: Particle, now: number) => {
+    const age = (now - p.born) / 1000;
+    return {
+        x: p.x + p.vx * age,
+        y: p.y + p.vy * age + 0.5 * PARTICLE_GRAVITY * age * age,
+        remaining: 1 - (now - p.born) / p.maxLife,
+    };
+};
+
+// ── System ──
+
+/** dustPerImpact depends on the renderer: GPU particles are nearly free. */
+export const createProjectileSystem = (dustPerImpact: number, random: () => number = Math.random): ProjectileSystem => {
+    const state: ProjectileState = {
+        flight: null,
+        impact: null,
+        pinned: [],
+        particles: [],
+        flash: { time: 0, hitPoint: { x: 0, y: 0 } },
+    };
+
+    const spawnDust = (at: Point, now: number) => {
+        const dust: Particle[] = [];
+        for (let i = 0; i < dustPerImpact; i++) {
+            const angle = random() * Math.PI * 2;
+            const speed = 60 + random() * 180;
+            dust.push({
+                x: at.x, y: at.y,
+                vx: Math.cos(angle) * speed,
+                vy: Math.sin(angle) * speed - 60,
+                born: now, maxLife: 250 + random() * 170,
+                r: 1 + random() * 2
+            });
+        }
+        state.particles = [...state.particles, ...dust];
+    };
+
+    return {
+        state,
+
+        launch(hitPoint, playerIndex, wind, config) {
+            state.flight = {
+                elapsed: 0,
+                duration: config.flightDuration,
+                hitPoint,
+                playerIndex,
+                wind: { ...wind },
+                resolved: false,
+                start: { x: 0, y: 0 },
+                end: { x: 0, y: 0 },
+                arcHeight: 180,
+                position: { x: 0, y: 0 },
+                angle: 0,
+                trail: [],
+            };
+            state.particles = [];
+            state.flash.time = 0;
+        },
+
+        rescale(factor) {
+            const scale = (p: Point) => ({ x: p.x * factor, y: p.y * factor });
+            state.pinned = state.pinned.map(arrow => ({ ...arrow, point: scale(arrow.point) }));
+            if (state.impact) state.impact.hitPoint = scale(state.impact.hitPoint);
+            if (state.flight) state.flight.hitPoint = scale(state.flight.hitPoint);
+            state.flash.hitPoint = scale(state.flash.hitPoint);
+        },
+
+        reset() {
+            state.flight = null;
+            state.impact = null;
+            state.pinned = [];
+            state.particles = [];
+            state.flash.time = 0;
+        },
+
+        update(deltaTime, now, frame, config) {
+            // Settle the last landing, then pin it
+            const impact = state.impact;
+            if (impact) {
+                impact.elapsed += deltaTime;
+                if (impactProgress(impact) >= 1) {
+                    state.impact = null;
+                    const next = [...state.pinned, { point: impact.hitPoint, playerIndex: impact.playerIndex }];
+                    state.pinned = next.length > config.maxArrows ? next.slice(next.length - config.maxArrows) : next;
+                }
+            }
+
+            if (state.flash.time > 0) state.flash.time -= deltaTime;
+
+            let landed: Flight | null = null;
+            const flight = state.flight;
+            if (flight) {
+                // Re-aimed every frame, so the arrow lands on a moving target's hit point
+                flight.end = { x: frame.target.x + flight.hitPoint.x, y: frame.target.y + flight.hitPoint.y };
+                if (!flight.resolved) {
+                    flight.start = { ...frame.origin };
+                    const dx = flight.end.x - flight.start.x;
+                    const dy = flight.end.y - flight.start.y;
+                    flight.arcHeight = Math.sqrt(dx * dx + dy * dy) * config.arcHeightFactor;
+                    flight.resolved = true;
+                }
+
+                // Slow-mo for last portion of flight
+                const speedMul = flightProgress(flight) > config.slowMoThreshold ? config.slowMoSpeed : 1.0;
+                flight.elapsed += deltaTime * speedMul;
+                const t = flightProgress(flight);
+
+                flight.position = flightPosition(flight, t, config);
+                flight.angle = flightAngle(flight, t, config);
+                flight.trail.push({ ...flight.position, angle: flight.angle, time: now });
+                flight.trail = flight.trail.filter(tp => now - tp.time <= TRAIL_DURATION);
+
+                if (t >= 1) {
+                    state.flight = null;
+                    landed = flight;
+                    spawnDust({
+                        x: frame.target.x + frame.shake.x + flight.hitPoint.x,
+                        y: frame.target.y + frame.shake.y + flight.hitPoint.y,
+                    }, now);
+                    state.flash = { time: IMPACT_FLASH_DURATION, hitPoint: flight.hitPoint };
+                    state.impact = { elapsed: 0, hitPoint: flight.hitPoint, playerIndex: flight.playerIndex };
+                }
+            }
+
+            if (state.particles.some(p => now - p.born >= p.maxLife)) {
+                state.particles = state.particles.filter(p => now - p.born < p.maxLife);
+            }
+
+            return landed;
+        },
+    };
+};
@@ -0,0 +1,33 @@
+/**
+ * Messages between the main thread and the render worker. Everything here is
+ * structured-cloneable; the canvas itself is transferred once in `init`.
+ */
+import type { Room, Point, ShotResult } from '../../types';
+import type { AimIntent } from '../aimInput';
+import type { ThemeId } from '../themes';
+import type { EngineConfig } from './config';
+import type { EngineSound, EngineViewer } from './engine';
+
+/** Main thread → worker. */
+export type EngineCommand =
+    | { type: 'init'; canvas: OffscreenCanvas }
+    | { type: 'resize'; width: number; height: number; dpr: number }
+    | { type: 'setRoom'; room: Room | null }
+    | { type: 'setViewer'; viewer: EngineViewer }
+    | { type: 'setConfig'; config: Partial<EngineConfig> }
+    | { type: 'setTheme'; theme: ThemeId }
+    | { type: 'shotResult'; result: ShotResult }
+    | { type: 'reset' }
+    | { type: 'aimIntent'; intent: AimIntent }   // keyboard / gamepad, polled on the main thread
+    | { type: 'pointerDown'; x: number; y: number }
+    | { type: 'pointerMove'; x: number; y: number }
+    | { type: 'pointerUp' }
+    | { type: 'start' }
+    | { type: 'stop' };
+
+/** Worker → main thread. */
+export type EngineEvent =
+    | { type: 'ready' }   // the engine is up; until then the host may give up on the worker
+    | { type: 'shoot'; aim: Point; aimDuration: number }
+    | { type: 'sound'; cue: EngineSound }
+    | { type: 'canvasLost' };   // see EngineHooks.canvasLost
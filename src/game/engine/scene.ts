@@ -0,0 +1,242 @@
+/**
+ * Scene renderers — draw one frame of engine state. Renderers hold no game
+ * state beyond their caches, so anything that can describe a frame (live
+ * play, replays, share cards) can render it. Two backends share this
+ * interface: Canvas2D everywhere, WebGL where the device can afford it.
+ */
+import type { Room, Point } from '../../types';
+import { paletteForSeat } from '../palettes';
+import { IMPACT_FLASH_DURATION, type EngineConfig } from './config';
+import { particleAt, type ProjectileState } from './projectile';
+import type { CameraState } from './camera';
+import type { AmbientState } from './ambient';
+import type { WeatherState } from './weather';
+import type { Theme } from '../themes';
+import type { TargetFace } from '../faces';
+import {
+    paintBackground,
+    drawTarget,
+    drawWindIndicator,
+    drawLandedArrows,
+    drawFlyingArrow,
+    drawReticle,
+    drawAmbient,
+    drawOverlay,
+    drawFlag,
+    flagMount,
+    drawLeadMarker,
+    drawDebris,
+    paintGrass,
+    FOLIAGE_LEAN,
+    GRASS_LEAN,
+    GRASS_HEIGHT,
+    type Ctx2D,
+} from './draw';
+import { createWebGLRenderer } from './webgl';
+
+// ── Layout ──
+
+export interface Layout {
+    w: number;             // CSS pixels
+    h: number;
+    centerX: number;
+    horizonY: number;
+    target: Point;         // target center at rest
+    bow: Point;            // where arrows launch from (just below the screen)
+    aimZoneY: number;      // pointer aiming starts below this line
+}
+
+export const computeLayout = (w: number, h: number): Layout => {
+    const centerX = w / 2;
+    const horizonY = h * 0.55;
+    return {
+        w, h, centerX, horizonY,
+        target: { x: centerX, y: horizonY + 80 },
+        bow: { x: centerX, y: h + 50 },
+        aimZoneY: h * 0.6,
+    };
+};
+
+// ── Frame ──
+
+export interface SceneHUD {
+    room: Room;
+    playerId: string | undefined;
+    spectating: boolean;
+    lastScore: number | null;
+    scoreFlash: number;
+    tutorial: boolean;
+}
+
+export interface SceneFrame {
+    time: number;          // performance.now() of this frame
+    layout: Layout;
+    target: Point;         // target center this frame; away from layout.target when the target moves
+    lead: Point | null;    // moving target, while aiming: where it'll be when an arrow released now lands
+    dpr: number;
+    config: EngineConfig;
+    camera: Readonly<CameraState>;
+    projectiles: Readonly<ProjectileState>;
+    wind: Point;
+    theme: Theme;
+    face: TargetFace;
+    ambient: Readonly<AmbientState>;
+    weather: Readonly<WeatherState>;
+    reticle: { point: Point; timer: number } | null;   // only while aiming
+    hud: SceneHUD | null;
+    dimmed: boolean;       // game over: the React overlay takes over
+}
+
+export type RendererKind = 'canvas2d' | 'webgl';
+
+export interface SceneRenderer {
+    readonly kind: RendererKind;
+    /** Dust particles spawned per impact; the GPU can afford many more. */
+    readonly dustPerImpact: number;
+    /** True once the canvas can't be drawn on again (a WebGL context lost for good). */
+    readonly lost: boolean;
+    render(frame: SceneFrame): void;
+}
+
+// ── Canvas2D ──
+
+/** An offscreen canvas at DPR resolution, repainted only when its key changes. */
+const createOffscreenCache = () => {
+    let entry: { canvas: OffscreenCanvas; key: unknown[] } | null = null;
+    return (key: unknown[], width: number, height: number, dpr: number, paint: (ctx: Ctx2D) => void) => {
+        if (entry && entry.key.length === key.length && entry.key.every((v, i) => v === key[i])) return entry.canvas;
+        const offscreen = new OffscreenCanvas(width * dpr, height * dpr);
+        const offCtx = offscreen.getContext('2d');
+        if (!offCtx) return null;
+        // Match main canvas DPR scaling
+        offCtx.scale(dpr, dpr);
+        paint(offCtx);
+        entry = { canvas: offscreen, key };
+        return offscreen;
+    };
+};
+
+const createCanvas2DRenderer = (ctx: Ctx2D): SceneRenderer => {
+    // The theme's sky and ground, its tree line (separate, so it can lean) and the foreground grass
+    const background = createOffscreenCache();
+    const foliage = createOffscreenCache();
+    const grass = createOffscreenCache();
+
+    // Draw a cached layer leaning by `skew`, pivoting on the line y = pivotY
+    const drawLeaning = (image: OffscreenCanvas, skew: number, pivotY: number, x: number, y: number, width: number, height: number) => {
+        ctx.save();
+        ctx.translate(0, pivotY);
+        ctx.transform(1, 0, -skew, 1, 0, 0);
+        ctx.translate(0, -pivotY);
+        ctx.drawImage(image, 0, 0, image.width, image.height, x, y, width, height);
+        ctx.restore();
+    };
+
+    return {
+        kind: 'canvas2d',
+        dustPerImpact: 10,
+        lost: false,
+
+        render(frame) {
+            const { layout, dpr, config, camera, projectiles, wind, theme, face, weather } = frame;
+            const { w, h, target } = layout;
+            const board = { x: frame.target.x + camera.shake.x, y: frame.target.y + camera.shake.y };
+
+            // Always enforce scale every frame to prevent state drift
+            ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+            ctx.save();
+
+            // Apply zoom centered on focus point
+            ctx.translate(camera.focus.x, camera.focus.y);
+            ctx.scale(camera.zoom, camera.zoom);
+            ctx.translate(-camera.focus.x, -camera.focus.y);
+
+            // 1. Static background (cached at DPR resolution), then the tree line leaning with the wind
+            const bg = background([layout, dpr, theme], w, h, dpr, offCtx => paintBackground(offCtx, layout, theme));
+            if (bg) {
+                // Source is DPR-scaled, dest is in CSS-pixel space (ctx already has dpr transform)
+                ctx.drawImage(bg, 0, 0, bg.width, bg.height, -w, -h, w * 3, h * 3);
+            }
+            const paintFoliage = theme.foliage;
+            const trees = paintFoliage && foliage([layout, dpr, paintFoliage], w, h, dpr, offCtx => paintFoliage(offCtx, layout));
+            if (trees) drawLeaning(trees, weather.sway * FOLIAGE_LEAN, -h + layout.horizonY * 3, -w, -h, w * 3, h * 3);
+
+            // 2. Target (with board shake offset), its wind flag and the wind indicator above it
+            drawTarget(ctx, board.x, board.y, config.targetScale, face);
+            const flag = flagMount(board, config.targetScale);
+            drawFlag(ctx, flag.x, flag.y, config.targetScale, wind, weather.strength, frame.time);
+            drawWindIndicator(ctx, board.x, board.y - 140 * config.targetScale - 30, wind);
+
+            // 3. Pinned arrows and the one landing now, then the foreground grass
+            drawLandedArrows(ctx, board, projectiles, config.useComplexShadow);
+            const grassColor = theme.grass;
+            const tufts = grassColor && grass([w, dpr, grassColor], w, GRASS_HEIGHT, dpr, offCtx => paintGrass(offCtx, w, grassColor));
+            if (tufts) drawLeaning(tufts, weather.sway * GRASS_LEAN, h, 0, h - GRASS_HEIGHT, w, GRASS_HEIGHT);
+
+            // 4. Arrow in flight, with its motion trail
+            if (projectiles.flight) {
+                const flight = projectiles.flight;
+                flight.trail.forEach((tp, i) => {
+                    const trailAlpha = (i / flight.trail.length) * 0.25;
+                    ctx.save();
+                    ctx.globalAlpha = trailAlpha;
+                    ctx.translate(tp.x, tp.y);
+                    ctx.rotate(tp.angle);
+                    ctx.strokeStyle = '#444';
+                    ctx.lineWidth = 2;
+                    ctx.beginPath(); ctx.moveTo(-20, 0); ctx.lineTo(10, 0); ctx.stroke();
+                    ctx.restore();
+                });
+                drawFlyingArrow(ctx, flight.position.x, flight.position.y, flight.angle, paletteForSeat(flight.playerIndex));
+            }
+
+            // 5. Impact particles & flash
+            for (const p of projectiles.particles) {
+                const { x, y, remaining } = particleAt(p, frame.time);
+                if (remaining <= 0) continue;
+                ctx.save(); ctx.globalAlpha = remaining * 0.6; ctx.fillStyle = '#c8b89a';
+                ctx.beginPath(); ctx.arc(x, y, p.r, 0, Math.PI * 2); ctx.fill(); ctx.restore();
+            }
+            if (projectiles.flash.time > 0) {
+                const fx = board.x + projectiles.flash.hitPoint.x;
+                const fy = board.y + projectiles.flash.hitPoint.y;
+                ctx.save(); ctx.globalAlpha = projectiles.flash.time / IMPACT_FLASH_DURATION * 0.4; ctx.fillStyle = '#fff';
+                ctx.beginPath(); ctx.arc(fx, fy, 12, 0, Math.PI * 2); ctx.fill(); ctx.restore();
+            }
+
+            // 6. Lead marker, reticle + aim timer (the reticle aims relative to the target at rest)
+            if (frame.lead) drawLeadMarker(ctx, frame.lead.x, frame.lead.y, config.targetScale);
+            if (frame.reticle) {
+                drawReticle(ctx, target.x + frame.reticle.point.x, target.y + frame.reticle.point.y, frame.reticle.timer);
+            }
+
+            ctx.restore(); // Undo zoom
+
+            // 7. Wind-blown debris and ambient particles (screen space)
+            drawDebris(ctx, weather);
+            drawAmbient(ctx, frame.ambient, frame.time);
+
+            // 8. HUD & game over
+            drawOverlay(ctx, frame);
+        },
+    };
+};
+
+// ── Backend selection ──
+
+/**
+ * WebGL when the device has a hardware-accelerated context (and `prefer` allows
+ * it); Canvas2D otherwise. A canvas keeps whichever context it hands out first,
+ * so this decides once — null if WebGL claimed the canvas and then failed.
+ */
+export const createSceneRenderer = (canvas: HTMLCanvasElement | OffscreenCanvas, prefer: RendererKind = 'webgl'): SceneRenderer | null => {
+    const webgl = prefer === 'webgl' ? createWebGLRenderer(canvas) : null;
+    if (webgl) {
+        console.log('Scene renderer: webgl');
+        return webgl;
+    }
+    const ctx = canvas.getContext('2d') as Ctx2D | null;
+    if (!ctx) return null;
+    console.log('Scene renderer: canvas2d');
+    return createCanvas2DRenderer(ctx);
+};
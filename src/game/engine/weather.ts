@@ -0,0 +1,102 @@
+/**
+ * Weather system — makes the room's wind visible. Gusts modulate a sway that
+ * trees, grass and the flag on the target stand lean with, and wind-blown
+ * debris (leaves, rain) drifts across the screen along the wind.
+ */
+import type { Point } from '../../types';
+import type { DebrisSpec } from '../themes';
+import { decayFor } from './config';
+import type { Layout } from './scene';
+
+/** Wind (per axis) at which everything leans and blows as far as it goes. */
+export const FULL_WIND = 2.5;
+
+export interface Debris {
+    x: number;             // CSS pixels, screen space
+    y: number;
+    size: number;
+    angle: number;         // radians; leaves tumble, rain follows its velocity
+    spin: number;          // rad/s
+    phase: number;
+    threshold: number;     // visible once the wind strength (0 → 1) reaches this
+}
+
+export interface WeatherState {
+    sway: number;          // lean, -1 (left) → 1 (right), gusting
+    strength: number;      // wind strength, 0 → 1, gusting
+    spec: DebrisSpec | null;
+    debris: Debris[];
+}
+
+export interface WeatherSystem {
+    readonly state: Readonly<WeatherState>;
+    /** Swap to a theme's debris (or none), scattered over the layout. */
+    reset(spec: DebrisSpec | null, layout: Layout): void;
+    update(deltaTime: number, layout: Layout, wind: Point): void;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** How visible a piece of debris is at this wind strength, 0 → 1: leaves fade in as they come loose. */
+export const debrisAlpha = (d: Debris, strength: number) => clamp((strength - d.threshold) / 0.1, 0, 1);
+
+const DEBRIS_COUNT = { leaves: 24, rain: 140 };
+
+const wrap = (value: number, size: number, margin: number) =>
+    value < -margin ? value + size + margin * 2 : value > size + margin ? value - size - margin * 2 : value;
+
+export const createWeatherSystem = (random: () => number = Math.random): WeatherSystem => {
+    const state: WeatherState = { sway: 0, strength: 0, spec: null, debris: [] };
+    let time = 0;
+
+    const spawn = (spec: DebrisSpec, i: number, { w, h }: Layout): Debris => ({
+        x: random() * w,
+        y: random() * h,
+        size: spec.kind === 'rain' ? 10 + random() * 10 : 3 + random() * 3,
+        angle: random() * Math.PI * 2,
+        spin: (random() - 0.5) * 8,
+        phase: random() * Math.PI * 2,
+        // Rain falls regardless; leaves only come loose as the wind picks up
+        threshold: spec.kind === 'rain' ? -1 : 0.15 + (i / DEBRIS_COUNT.leaves) * 0.85,
+    });
+
+    return {
+        state,
+
+        reset(spec, layout) {
+            state.spec = spec;
+            state.debris = spec ? Array.from({ length: DEBRIS_COUNT[spec.kind] }, (_, i) => spawn(spec, i, layout)) : [];
+        },
+
+        update(deltaTime, { w, h }, wind) {
+            time += deltaTime;
+            const dt = deltaTime / 1000;
+
+            // Two slow, out-of-step waves read as irregular gusts
+            const gust = 0.5 + 0.3 * Math.sin(time / 2300) + 0.2 * Math.sin(time / 870 + 1);
+            const gusting = 0.7 + 0.3 * gust;
+            const calm = Math.sin(time / 1100) * 0.04;   // a little movement even on a still day
+            const windStrength = clamp(Math.sqrt(wind.x * wind.x + wind.y * wind.y) / FULL_WIND, 0, 1);
+            const ease = 1 - decayFor(0.95, deltaTime);
+            state.sway += (clamp(wind.x / FULL_WIND, -1, 1) * gusting + calm - state.sway) * ease;
+            state.strength += (windStrength * gusting - state.strength) * ease;
+
+            const spec = state.spec;
+            if (!spec) return;
+            for (const d of state.debris) {
+                let vx: number, vy: number;
+                if (spec.kind === 'rain') {
+                    vx = wind.x * 90 * gusting;
+                    vy = 650 + wind.y * 40;
+                    d.angle = Math.atan2(vy, vx);
+                } else {
+                    vx = wind.x * 70 * gusting + Math.sin(time / 400 + d.phase) * 20;
+                    vy = 25 + wind.y * 30 + Math.cos(time / 500 + d.phase) * 25;
+                    d.angle += d.spin * dt;
+                }
+                d.x = wrap(d.x + vx * dt, w, 20);
+                d.y = wrap(d.y + vy * dt, h, 20);
+            }
+        },
+    };
+};
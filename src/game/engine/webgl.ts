@@ -0,0 +1,676 @@
+/**
+ * WebGL scene renderer. The slow-changing parts of the scene are still painted
+ * with the Canvas2D helpers, into layers that are only re-uploaded when they
+ * change; the GPU composites them under the camera every frame and adds what
+ * Canvas2D can't afford: dust particles simulated in the vertex shader,
+ * depth-of-field blur on the background during the post-shot hold, and
+ * motion blur along the arrow trail.
+ */
+import { paletteForSeat } from '../palettes';
+import { FACE_RADIUS } from '../faces';
+import { IMPACT_FLASH_DURATION, PARTICLE_GRAVITY } from './config';
+import type { Particle } from './projectile';
+import { ambientAlpha } from './ambient';
+import { debrisAlpha } from './weather';
+import {
+    paintBackground,
+    drawTarget,
+    drawWindIndicator,
+    drawLandedArrows,
+    drawFlyingArrow,
+    drawReticle,
+    drawOverlay,
+    drawScoreFlash,
+    scoreFlashPose,
+    drawFlag,
+    flagMount,
+    drawLeadMarker,
+    paintGrass,
+    FOLIAGE_LEAN,
+    GRASS_LEAN,
+    GRASS_HEIGHT,
+    FLAG_BOUNDS,
+    SCORE_FLASH_BOUNDS,
+    SCORE_FLASH_MAX_FONT,
+} from './draw';
+import type { SceneRenderer, SceneFrame } from './scene';
+
+/** Full-screen layers at device resolution need textures at least this large. */
+const MIN_TEXTURE_SIZE = 4096;
+
+/** Background blur radius at full depth of field (CSS px). */
+const MAX_DOF_BLUR = 6;
+
+/** A lost context not restored within this long isn't coming back (ms). */
+const CONTEXT_RESTORE_TIMEOUT = 3000;
+
+/** Sprites are painted at this multiple of the DPR so they stay sharp under the result zoom. */
+const SPRITE_SCALE = 2;
+
+const ARROW_SPRITE = { w: 80, h: 16 };     // flying arrow, centered on its nock-to-tip midpoint
+const RETICLE_SPRITE = 96;
+const FLASH_SPRITE = 32;
+const LEAD_SPRITE = 2 * FACE_RADIUS + 8;   // lead marker at unit target scale
+const AMBIENT_SPRITE = 16;                // soft dot; a particle of radius r is drawn 4r wide
+const DEBRIS_SPRITE = { w: 32, h: 16 };    // a leaf, or a rain streak along its length
+
+const CONTEXT_ATTRIBUTES: WebGLContextAttributes = {
+    alpha: false,
+    antialias: false,
+    premultipliedAlpha: true,
+    failIfMajorPerformanceCaveat: true,   // no software rasterizers
+};
+
+// ── Shaders ──
+
+// Textured quad: a unit square scaled, rotated and placed in world space, then through the camera
+const SPRITE_VERTEX = `
+attribute vec2 a_corner;
+uniform vec2 u_viewport;
+uniform vec3 u_camera;      // focus.xy, zoom
+uniform vec2 u_origin;
+uniform vec2 u_size;
+uniform vec2 u_pivot;
+uniform float u_angle;
+uniform float u_skew;       // lean: horizontal shift per unit of height above the pivot
+varying vec2 v_uv;
+void main() {
+    vec2 local = (a_corner - u_pivot) * u_size;
+    local.x -= u_skew * local.y;
+    float c = cos(u_angle);
+    float s = sin(u_angle);
+    vec2 world = u_origin + vec2(local.x * c - local.y * s, local.x * s + local.y * c);
+    vec2 screen = u_camera.xy + (world - u_camera.xy) * u_camera.z;
+    vec2 clip = screen / u_viewport * 2.0 - 1.0;
+    gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+    v_uv = a_corner;
+}`;
+
+// Optional disc blur (13 taps) for depth of field
+const SPRITE_FRAGMENT = `
+precision mediump float;
+uniform sampler2D u_texture;
+uniform float u_alpha;
+uniform vec2 u_blur;        // blur radius in uv units; zero for a sharp sample
+varying vec2 v_uv;
+void main() {
+    vec4 color = texture2D(u_texture, v_uv);
+    if (u_blur.x > 0.0) {
+        color *= 0.25;
+        color += texture2D(u_texture, v_uv + u_blur * vec2( 1.0,  0.0)) * 0.1;
+        color += texture2D(u_texture, v_uv + u_blur * vec2(-1.0,  0.0)) * 0.1;
+        color += texture2D(u_texture, v_uv + u_blur * vec2( 0.0,  1.0)) * 0.1;
+        color += texture2D(u_texture, v_uv + u_blur * vec2( 0.0, -1.0)) * 0.1;
+        color += texture2D(u_texture, v_uv + u_blur * vec2( 0.7,  0.7)) * 0.05;
+        color += texture2D(u_texture, v_uv + u_blur * vec2(-0.7,  0.7)) * 0.05;
+        color += texture2D(u_texture, v_uv + u_blur * vec2( 0.7, -0.7)) * 0.05;
+        color += texture2D(u_texture, v_uv + u_blur * vec2(-0.7, -0.7)) * 0.05;
+        color += texture2D(u_texture, v_uv + u_blur * vec2( 0.5,  0.0)) * 0.0375;
+        color += texture2D(u_texture, v_uv + u_blur * vec2(-0.5,  0.0)) * 0.0375;
+        color += texture2D(u_texture, v_uv + u_blur * vec2( 0.0,  0.5)) * 0.0375;
+        color += texture2D(u_texture, v_uv + u_blur * vec2( 0.0, -0.5)) * 0.0375;
+    }
+    gl_FragColor = color * u_alpha;
+}`;
+
+// Dust: ballistic from spawn state, so the CPU never touches a particle after spawning it
+const PARTICLE_VERTEX = `
+attribute vec2 a_origin;
+attribute vec2 a_velocity;
+attribute float a_born;     // ms, relative to the renderer's epoch
+attribute float a_life;     // ms
+attribute float a_radius;
+uniform float u_time;
+uniform float u_gravity;
+uniform float u_dpr;
+uniform vec2 u_viewport;
+uniform vec3 u_camera;
+varying float v_alpha;
+void main() {
+    float age = u_time - a_born;
+    float t = age / 1000.0;
+    vec2 world = a_origin + a_velocity * t + vec2(0.0, 0.5 * u_gravity * t * t);
+    vec2 screen = u_camera.xy + (world - u_camera.xy) * u_camera.z;
+    vec2 clip = screen / u_viewport * 2.0 - 1.0;
+    bool alive = age >= 0.0 && age < a_life;
+    gl_Position = alive ? vec4(clip.x, -clip.y, 0.0, 1.0) : vec4(2.0, 2.0, 0.0, 1.0);
+    gl_PointSize = alive ? a_radius * 2.0 * u_camera.z * u_dpr : 0.0;
+    v_alpha = (1.0 - age / a_life) * 0.6;
+}`;
+
+const PARTICLE_FRAGMENT = `
+precision mediump float;
+varying float v_alpha;
+void main() {
+    float r = length(gl_PointCoord - 0.5);
+    if (r > 0.5) discard;
+    gl_FragColor = vec4(0.784, 0.722, 0.604, 1.0) * v_alpha * smoothstep(0.5, 0.3, r);
+}`;
+
+const PARTICLE_STRIDE = 7; // floats per particle: origin(2) velocity(2) born life radius
+
+// ── GL plumbing ──
+
+const compile = (gl: WebGLRenderingContext, vertexSource: string, fragmentSource: string) => {
+    const shader = (type: number, source: string) => {
+        const s = gl.createShader(type);
+        if (!s) return null;
+        gl.shaderSource(s, source);
+        gl.compileShader(s);
+        if (!gl.getShaderParameter(s, gl.COMPILE_STATUS)) {
+            console.error('Shader failed to compile:', gl.getShaderInfoLog(s));
+            return null;
+        }
+        return s;
+    };
+    const vs = shader(gl.VERTEX_SHADER, vertexSource);
+    const fs = shader(gl.FRAGMENT_SHADER, fragmentSource);
+    const program = gl.createProgram();
+    if (!vs || !fs || !program) return null;
+    gl.attachShader(program, vs);
+    gl.attachShader(program, fs);
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+        console.error('Shader program failed to link:', gl.getProgramInfoLog(program));
+        return null;
+    }
+    return program;
+};
+
+const uniforms = <K extends string>(gl: WebGLRenderingContext, program: WebGLProgram, names: readonly K[]) =>
+    Object.fromEntries(names.map(name => [name, gl.getUniformLocation(program, name)])) as Record<K, WebGLUniformLocation | null>;
+
+/** A Canvas2D surface mirrored into a texture, uploaded only when repainted. */
+interface Layer {
+    canvas: OffscreenCanvas;
+    ctx: OffscreenCanvasRenderingContext2D;
+    texture: WebGLTexture;
+    key: unknown[] | null;   // null until first painted
+}
+
+const keyChanged = (a: unknown[] | null, b: unknown[]) => !a || a.length !== b.length || a.some((v, i) => v !== b[i]);
+
+/** Programs, buffers and GL state the renderer needs; null if any of it can't be set up. */
+const createResources = (gl: WebGLRenderingContext) => {
+    const spriteProgram = compile(gl, SPRITE_VERTEX, SPRITE_FRAGMENT);
+    const particleProgram = compile(gl, PARTICLE_VERTEX, PARTICLE_FRAGMENT);
+    const quadBuffer = gl.createBuffer();
+    const particleBuffer = gl.createBuffer();
+    if (!spriteProgram || !particleProgram || !quadBuffer || !particleBuffer) return null;
+
+    const sprite = {
+        corner: gl.getAttribLocation(spriteProgram, 'a_corner'),
+        ...uniforms(gl, spriteProgram, ['u_viewport', 'u_camera', 'u_origin', 'u_size', 'u_pivot', 'u_angle', 'u_skew', 'u_texture', 'u_alpha', 'u_blur'] as const),
+    };
+    const particle = {
+        attributes: (['a_origin', 'a_velocity', 'a_born', 'a_life', 'a_radius'] as const).map(name => gl.getAttribLocation(particleProgram, name)),
+        ...uniforms(gl, particleProgram, ['u_time', 'u_gravity', 'u_dpr', 'u_viewport', 'u_camera'] as const),
+    };
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, quadBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([0, 0, 1, 0, 0, 1, 1, 1]), gl.STATIC_DRAW);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+    return { spriteProgram, particleProgram, quadBuffer, particleBuffer, sprite, particle };
+};
+
+/**
+ * Capability probe on a throwaway context, running the renderer's whole setup,
+ * so a failed check leaves the real canvas free for Canvas2D.
+ */
+const supportsWebGL = () => {
+    if (typeof OffscreenCanvas === 'undefined') return false;
+    const probe = new OffscreenCanvas(1, 1).getContext('webgl', CONTEXT_ATTRIBUTES);
+    if (!probe) return false;
+    const ok = probe.getParameter(probe.MAX_TEXTURE_SIZE) >= MIN_TEXTURE_SIZE && createResources(probe) !== null;
+    probe.getExtension('WEBGL_lose_context')?.loseContext();
+    return ok;
+};
+
+// ── Renderer ──
+
+/**
+ * Null if WebGL isn't worth using here. Past the probe, a setup failure on the
+ * real canvas also returns null, and the canvas is lost to Canvas2D as well.
+ */
+export const createWebGLRenderer = (canvas: HTMLCanvasElement | OffscreenCanvas): SceneRenderer | null => {
+    if (!supportsWebGL()) return null;
+    const gl = canvas.getContext('webgl', CONTEXT_ATTRIBUTES) as WebGLRenderingContext | null;
+    if (!gl) return null;
+
+    const resources = createResources(gl);
+    if (!resources) return null;
+    let { spriteProgram, particleProgram, quadBuffer, particleBuffer, sprite, particle } = resources;
+
+    // Particle birth times are sent relative to this, to stay precise in float32
+    const epoch = performance.now();
+    let uploadedParticles: readonly Particle[] | null = null;
+    let particleCount = 0;
+
+    // ── Layers ──
+
+    const createLayer = (width: number, height: number): Layer | null => {
+        const layerCanvas = new OffscreenCanvas(Math.max(1, Math.ceil(width)), Math.max(1, Math.ceil(height)));
+        const ctx = layerCanvas.getContext('2d');
+        const texture = gl.createTexture();
+        if (!ctx || !texture) return null;
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        return { canvas: layerCanvas, ctx, texture, key: null };
+    };
+
+    const disposeLayer = (layer: Layer | null) => {
+        if (layer) gl.deleteTexture(layer.texture);
+    };
+
+    /** Repaint and upload when the key changes (or on every frame, with `always`). */
+    const refresh = (layer: Layer, key: unknown[], paint: (ctx: OffscreenCanvasRenderingContext2D) => void, always = false) => {
+        if (!always && !keyChanged(layer.key, key)) return;
+        layer.key = key;
+        layer.ctx.setTransform(1, 0, 0, 1, 0, 0);
+        layer.ctx.clearRect(0, 0, layer.canvas.width, layer.canvas.height);
+        paint(layer.ctx);
+        gl.bindTexture(gl.TEXTURE_2D, layer.texture);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, layer.canvas);
+    };
+
+    // Full-screen layers, rebuilt on resize
+    let screenLayers: {
+        layout: SceneFrame['layout'];
+        dpr: number;
+        background: Layer;
+        foliage: Layer;
+        board: Layer;
+        grass: Layer;
+        overlay: Layer;
+    } | null = null;
+
+    const layersFor = (frame: SceneFrame) => {
+        if (screenLayers && screenLayers.layout === frame.layout && screenLayers.dpr === frame.dpr) return screenLayers;
+        if (screenLayers) {
+            disposeLayer(screenLayers.background);
+            disposeLayer(screenLayers.foliage);
+            disposeLayer(screenLayers.board);
+            disposeLayer(screenLayers.grass);
+            disposeLayer(screenLayers.overlay);
+            screenLayers = null;
+        }
+        const w = frame.layout.w * frame.dpr;
+        const h = frame.layout.h * frame.dpr;
+        const background = createLayer(w, h);
+        const foliage = createLayer(w, h);
+        const board = createLayer(w, h);
+        const grass = createLayer(w, GRASS_HEIGHT * frame.dpr);
+        const overlay = createLayer(w, h);
+        if (!background || !foliage || !board || !grass || !overlay) return null;
+        screenLayers = { layout: frame.layout, dpr: frame.dpr, background, foliage, board, grass, overlay };
+        return screenLayers;
+    };
+
+    // Small sprites at SPRITE_SCALE × DPR
+    const arrowSprites = new Map<number, Layer>();   // by seat
+    let reticleSprite: Layer | null = null;
+    let flashSprite: Layer | null = null;
+    let leadSprite: Layer | null = null;
+    let ambientSprite: Layer | null = null;
+    let debrisSprite: Layer | null = null;
+    let flagSprite: Layer | null = null;
+    let scoreSprite: Layer | null = null;
+    let spriteDpr = 0;
+
+    const resetSprites = (dpr: number) => {
+        if (spriteDpr === dpr) return;
+        arrowSprites.forEach(disposeLayer);
+        arrowSprites.clear();
+        disposeLayer(reticleSprite);
+        disposeLayer(flashSprite);
+        disposeLayer(leadSprite);
+        disposeLayer(ambientSprite);
+        disposeLayer(debrisSprite);
+        disposeLayer(flagSprite);
+        disposeLayer(scoreSprite);
+        reticleSprite = flashSprite = leadSprite = ambientSprite = debrisSprite = flagSprite = scoreSprite = null;
+        spriteDpr = dpr;
+    };
+
+    // A restored context starts empty: the old textures went with the old one, so just drop them
+    const forgetLayers = () => {
+        screenLayers = null;
+        arrowSprites.clear();
+        reticleSprite = flashSprite = leadSprite = ambientSprite = debrisSprite = flagSprite = scoreSprite = null;
+        spriteDpr = 0;
+        uploadedParticles = null;
+    };
+
+    const arrowSprite = (seat: number) => {
+        let layer = arrowSprites.get(seat) ?? null;
+        if (!layer) {
+            const scale = spriteDpr * SPRITE_SCALE;
+            layer = createLayer(ARROW_SPRITE.w * scale, ARROW_SPRITE.h * scale);
+            if (!layer) return null;
+            refresh(layer, [seat], ctx => {
+                ctx.scale(scale, scale);
+                drawFlyingArrow(ctx, ARROW_SPRITE.w / 2, ARROW_SPRITE.h / 2, 0, paletteForSeat(seat));
+            });
+            arrowSprites.set(seat, layer);
+        }
+        return layer;
+    };
+
+    // ── Drawing ──
+
+    const bindSpriteProgram = (frame: SceneFrame, camera: [number, number, number]) => {
+        gl.useProgram(spriteProgram);
+        gl.bindBuffer(gl.ARRAY_BUFFER, quadBuffer);
+        gl.enableVertexAttribArray(sprite.corner);
+        gl.vertexAttribPointer(sprite.corner, 2, gl.FLOAT, false, 0, 0);
+        gl.uniform2f(sprite.u_viewport, frame.layout.w, frame.layout.h);
+        gl.uniform3f(sprite.u_camera, camera[0], camera[1], camera[2]);
+        gl.uniform1i(sprite.u_texture, 0);
+        gl.activeTexture(gl.TEXTURE0);
+    };
+
+    const drawSprite = (
+        layer: Layer,
+        x: number, y: number, width: number, height: number,
+        { pivotX = 0, pivotY = 0, angle = 0, skew = 0, alpha = 1, blur = 0 } = {},
+    ) => {
+        gl.bindTexture(gl.TEXTURE_2D, layer.texture);
+        gl.uniform2f(sprite.u_origin, x, y);
+        gl.uniform2f(sprite.u_size, width, height);
+        gl.uniform2f(sprite.u_pivot, pivotX, pivotY);
+        gl.uniform1f(sprite.u_angle, angle);
+        gl.uniform1f(sprite.u_skew, skew);
+        gl.uniform1f(sprite.u_alpha, alpha);
+        gl.uniform2f(sprite.u_blur, blur / width, blur / height);
+        gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    };
+
+    const drawParticles = (frame: SceneFrame, camera: [number, number, number]) => {
+        const particles = frame.projectiles.particles;
+        if (particles !== uploadedParticles) {
+            const data = new Float32Array(particles.length * PARTICLE_STRIDE);
+            particles.forEach((p, i) => {
+                data.set([p.x, p.y, p.vx, p.vy, p.born - epoch, p.maxLife, p.r], i * PARTICLE_STRIDE);
+            });
+            gl.bindBuffer(gl.ARRAY_BUFFER, particleBuffer);
+            gl.bufferData(gl.ARRAY_BUFFER, data, gl.DYNAMIC_DRAW);
+            uploadedParticles = particles;
+            particleCount = particles.length;
+        }
+        if (particleCount === 0) return;
+
+        gl.disableVertexAttribArray(sprite.corner);
+        gl.useProgram(particleProgram);
+        gl.bindBuffer(gl.ARRAY_BUFFER, particleBuffer);
+        const sizes = [2, 2, 1, 1, 1];
+        let offset = 0;
+        particle.attributes.forEach((location, i) => {
+            gl.enableVertexAttribArray(location);
+            gl.vertexAttribPointer(location, sizes[i], gl.FLOAT, false, PARTICLE_STRIDE * 4, offset * 4);
+            offset += sizes[i];
+        });
+        gl.uniform1f(particle.u_time, frame.time - epoch);
+        gl.uniform1f(particle.u_gravity, PARTICLE_GRAVITY);
+        gl.uniform1f(particle.u_dpr, frame.dpr);
+        gl.uniform2f(particle.u_viewport, frame.layout.w, frame.layout.h);
+        gl.uniform3f(particle.u_camera, camera[0], camera[1], camera[2]);
+        gl.drawArrays(gl.POINTS, 0, particleCount);
+        particle.attributes.forEach(location => gl.disableVertexAttribArray(location));
+    };
+
+    // ── Context loss ──
+
+    // The GPU can drop the context (driver reset, too many contexts); wait for the browser
+    // to restore it and rebuild, or give the canvas up if it doesn't come back
+    let contextLost = false;
+    let gone = false;
+    let restoreTimer: ReturnType<typeof setTimeout> | undefined;
+    const events = canvas as EventTarget;
+    events.addEventListener('webglcontextlost', (e) => {
+        e.preventDefault();   // without this the browser never restores it
+        contextLost = true;
+        restoreTimer = setTimeout(() => { gone = true; }, CONTEXT_RESTORE_TIMEOUT);
+    });
+    events.addEventListener('webglcontextrestored', () => {
+        clearTimeout(restoreTimer);
+        const rebuilt = createResources(gl);
+        if (!rebuilt) {
+            gone = true;
+            return;
+        }
+        ({ spriteProgram, particleProgram, quadBuffer, particleBuffer, sprite, particle } = rebuilt);
+        forgetLayers();
+        contextLost = false;
+    });
+
+    return {
+        kind: 'webgl',
+        dustPerImpact: 60,
+        get lost() { return gone; },
+
+        render(frame) {
+            if (contextLost) return;
+            const layers = layersFor(frame);
+            if (!layers) return;
+            resetSprites(frame.dpr);
+
+            const { layout, dpr, config, camera, projectiles, wind, theme, weather } = frame;
+            const { w, h, target } = layout;
+            const worldCamera: [number, number, number] = [camera.focus.x, camera.focus.y, camera.zoom];
+            const screenCamera: [number, number, number] = [0, 0, 1];
+
+            // ── Repaint what changed ──
+            refresh(layers.background, [theme], ctx => {
+                ctx.scale(dpr, dpr);
+                paintBackground(ctx, layout, theme);
+            });
+            const paintFoliage = theme.foliage;
+            if (paintFoliage) {
+                refresh(layers.foliage, [paintFoliage], ctx => {
+                    ctx.scale(dpr, dpr);
+                    paintFoliage(ctx, layout);
+                });
+            }
+            const grassColor = theme.grass;
+            if (grassColor) {
+                refresh(layers.grass, [grassColor], ctx => {
+                    ctx.scale(dpr, dpr);
+                    paintGrass(ctx, w, grassColor);
+                });
+            }
+            // Target, wind and landed arrows share a layer; it only moves with the board shake
+            refresh(layers.board, [config.targetScale, frame.face, wind.x, wind.y, projectiles.pinned, config.useComplexShadow], ctx => {
+                ctx.scale(dpr, dpr);
+                drawTarget(ctx, target.x, target.y, config.targetScale, frame.face);
+                drawWindIndicator(ctx, target.x, target.y - 140 * config.targetScale - 30, wind);
+                drawLandedArrows(ctx, target, projectiles, config.useComplexShadow);
+            }, projectiles.impact !== null);
+            // The score flash is its own sprite, so the overlay isn't repainted all through its fade
+            const hud = frame.hud;
+            refresh(layers.overlay, [frame.dimmed, hud?.room, hud?.playerId, hud?.spectating, hud?.tutorial], ctx => {
+                ctx.scale(dpr, dpr);
+                drawOverlay(ctx, frame, false);
+            }, !!hud?.tutorial);
+
+            // ── Composite ──
+            gl.viewport(0, 0, gl.drawingBufferWidth, gl.drawingBufferHeight);
+            gl.clearColor(0, 0, 0, 1);
+            gl.clear(gl.COLOR_BUFFER_BIT);
+
+            bindSpriteProgram(frame, worldCamera);
+            // Background, blurred while the camera holds on the hit
+            const dof = camera.dof * MAX_DOF_BLUR;
+            drawSprite(layers.background, -w, -h, w * 3, h * 3, { blur: dof });
+            if (paintFoliage) {
+                // Leans with the wind, pivoting on the horizon
+                drawSprite(layers.foliage, -w, -h, w * 3, h * 3, {
+                    pivotY: layout.horizonY / h, skew: weather.sway * FOLIAGE_LEAN, blur: dof,
+                });
+            }
+            // The board layer is painted at the resting target; moving targets shift it
+            const board = { x: frame.target.x + camera.shake.x, y: frame.target.y + camera.shake.y };
+            drawSprite(layers.board, board.x - target.x, board.y - target.y, w, h);
+
+            // Wind flag on the target stand, repainted every frame as it flutters
+            const scale = spriteDpr * SPRITE_SCALE;
+            flagSprite ??= createLayer(FLAG_BOUNDS.w * scale, FLAG_BOUNDS.h * scale);
+            if (flagSprite) {
+                refresh(flagSprite, [], ctx => {
+                    ctx.scale(scale, scale);
+                    drawFlag(ctx, FLAG_BOUNDS.w / 2, FLAG_BOUNDS.h, 1, wind, weather.strength, frame.time);
+                }, true);
+                const mount = flagMount(board, config.targetScale);
+                drawSprite(flagSprite, mount.x, mount.y, FLAG_BOUNDS.w * config.targetScale, FLAG_BOUNDS.h * config.targetScale, {
+                    pivotX: 0.5, pivotY: 1,
+                });
+            }
+
+            if (grassColor) {
+                drawSprite(layers.grass, 0, h, w, GRASS_HEIGHT, { pivotY: 1, skew: weather.sway * GRASS_LEAN });
+            }
+
+            // Flying arrow: fading copies along the trail read as motion blur
+            if (projectiles.flight) {
+                const flight = projectiles.flight;
+                const arrow = arrowSprite(flight.playerIndex);
+                if (arrow) {
+                    flight.trail.forEach((tp, i) => {
+                        drawSprite(arrow, tp.x, tp.y, ARROW_SPRITE.w, ARROW_SPRITE.h, {
+                            pivotX: 0.5, pivotY: 0.5, angle: tp.angle, alpha: (i / flight.trail.length) * 0.35,
+                        });
+                    });
+                    drawSprite(arrow, flight.position.x, flight.position.y, ARROW_SPRITE.w, ARROW_SPRITE.h, {
+                        pivotX: 0.5, pivotY: 0.5, angle: flight.angle,
+                    });
+                }
+            }
+
+            if (projectiles.flash.time > 0) {
+                if (!flashSprite) {
+                    flashSprite = createLayer(FLASH_SPRITE * scale, FLASH_SPRITE * scale);
+                    if (flashSprite) {
+                        refresh(flashSprite, [], ctx => {
+                            ctx.scale(scale, scale);
+                            ctx.fillStyle = '#fff';
+                            ctx.beginPath(); ctx.arc(FLASH_SPRITE / 2, FLASH_SPRITE / 2, FLASH_SPRITE / 2, 0, Math.PI * 2); ctx.fill();
+                        });
+                    }
+                }
+                if (flashSprite) {
+                    const fx = board.x + projectiles.flash.hitPoint.x;
+                    const fy = board.y + projectiles.flash.hitPoint.y;
+                    drawSprite(flashSprite, fx, fy, 24, 24, {
+                        pivotX: 0.5, pivotY: 0.5, alpha: projectiles.flash.time / IMPACT_FLASH_DURATION * 0.4,
+                    });
+                }
+            }
+
+            if (frame.lead) {
+                leadSprite ??= createLayer(LEAD_SPRITE * scale, LEAD_SPRITE * scale);
+                if (leadSprite) {
+                    refresh(leadSprite, [], ctx => {
+                        ctx.scale(scale, scale);
+                        drawLeadMarker(ctx, LEAD_SPRITE / 2, LEAD_SPRITE / 2, 1);
+                    });
+                    drawSprite(leadSprite, frame.lead.x, frame.lead.y, LEAD_SPRITE * config.targetScale, LEAD_SPRITE * config.targetScale, {
+                        pivotX: 0.5, pivotY: 0.5,
+                    });
+                }
+            }
+
+            if (frame.reticle) {
+                reticleSprite ??= createLayer(RETICLE_SPRITE * scale, RETICLE_SPRITE * scale);
+                if (reticleSprite) {
+                    // Repaint only when the timer arc visibly moves
+                    refresh(reticleSprite, [Math.round(frame.reticle.timer * 240)], ctx => {
+                        ctx.scale(scale, scale);
+                        drawReticle(ctx, RETICLE_SPRITE / 2, RETICLE_SPRITE / 2, frame.reticle?.timer ?? 0);
+                    });
+                    drawSprite(reticleSprite, target.x + frame.reticle.point.x, target.y + frame.reticle.point.y, RETICLE_SPRITE, RETICLE_SPRITE, {
+                        pivotX: 0.5, pivotY: 0.5,
+                    });
+                }
+            }
+
+            drawParticles(frame, worldCamera);
+
+            // Debris, ambient particles and HUD in screen space, unzoomed
+            bindSpriteProgram(frame, screenCamera);
+            const debris = weather.spec;
+            if (debris && weather.debris.length > 0) {
+                debrisSprite ??= createLayer(DEBRIS_SPRITE.w * scale, DEBRIS_SPRITE.h * scale);
+                if (debrisSprite) {
+                    refresh(debrisSprite, [debris.kind, debris.color], ctx => {
+                        ctx.scale(scale, scale);
+                        ctx.fillStyle = ctx.strokeStyle = debris.color;
+                        ctx.beginPath();
+                        if (debris.kind === 'rain') {
+                            ctx.lineWidth = 2;
+                            ctx.moveTo(0, DEBRIS_SPRITE.h / 2);
+                            ctx.lineTo(DEBRIS_SPRITE.w, DEBRIS_SPRITE.h / 2);
+                            ctx.stroke();
+                        } else {
+                            ctx.ellipse(DEBRIS_SPRITE.w / 2, DEBRIS_SPRITE.h / 2, DEBRIS_SPRITE.w / 2 - 1, DEBRIS_SPRITE.h / 2 - 1, 0, 0, Math.PI * 2);
+                            ctx.fill();
+                        }
+                    });
+                    for (const d of weather.debris) {
+                        const alpha = debrisAlpha(d, weather.strength);
+                        if (alpha <= 0.01) continue;
+                        if (debris.kind === 'rain') {
+                            // Head at the drop's position, streak trailing behind it
+                            drawSprite(debrisSprite, d.x, d.y, d.size, d.size / 2, { pivotX: 1, pivotY: 0.5, angle: d.angle, alpha });
+                        } else {
+                            drawSprite(debrisSprite, d.x, d.y, d.size * 2, d.size, { pivotX: 0.5, pivotY: 0.5, angle: d.angle, alpha });
+                        }
+                    }
+                }
+            }
+            const ambient = frame.ambient;
+            if (ambient.spec && ambient.particles.length > 0) {
+                const spec = ambient.spec;
+                ambientSprite ??= createLayer(AMBIENT_SPRITE * scale, AMBIENT_SPRITE * scale);
+                if (ambientSprite) {
+                    refresh(ambientSprite, [spec.color], ctx => {
+                        ctx.scale(scale, scale);
+                        const c = AMBIENT_SPRITE / 2;
+                        const dot = ctx.createRadialGradient(c, c, 0, c, c, c);
+                        dot.addColorStop(0, spec.color);
+                        dot.addColorStop(0.45, spec.color);
+                        dot.addColorStop(1, 'rgba(0,0,0,0)');
+                        ctx.fillStyle = dot;
+                        ctx.fillRect(0, 0, AMBIENT_SPRITE, AMBIENT_SPRITE);
+                    });
+                    for (const p of ambient.particles) {
+                        const alpha = ambientAlpha(spec.kind, p, frame.time);
+                        if (alpha <= 0.01) continue;
+                        drawSprite(ambientSprite, p.x, p.y, p.r * 4, p.r * 4, { pivotX: 0.5, pivotY: 0.5, alpha });
+                    }
+                }
+            }
+            // Score flash: painted once at full size, then shrunk and faded on the GPU
+            if (hud && hud.lastScore !== null && hud.scoreFlash > 0) {
+                const bounds = SCORE_FLASH_BOUNDS;
+                scoreSprite ??= createLayer(bounds.w * spriteDpr, bounds.h * spriteDpr);
+                if (scoreSprite) {
+                    const lastScore = hud.lastScore;
+                    refresh(scoreSprite, [lastScore, frame.face], ctx => {
+                        ctx.scale(spriteDpr, spriteDpr);
+                        drawScoreFlash(ctx, bounds.w / 2, bounds.centerY, lastScore, frame.face, SCORE_FLASH_MAX_FONT);
+                    });
+                    const pose = scoreFlashPose(hud.scoreFlash, w, h);
+                    const size = pose.fontSize / SCORE_FLASH_MAX_FONT;
+                    drawSprite(scoreSprite, pose.x, pose.y, bounds.w * size, bounds.h * size, {
+                        pivotX: 0.5, pivotY: bounds.centerY / bounds.h, alpha: pose.alpha,
+                    });
+                }
+            }
+            drawSprite(layers.overlay, 0, 0, w, h);
+        },
+    };
+};
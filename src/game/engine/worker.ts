@@ -0,0 +1,70 @@
+/**
+ * Render worker — runs the game engine against a transferred OffscreenCanvas,
+ * so flight and impact animations don't compete with React on the main thread.
+ * Started by the engine host; see protocol.ts for the messages.
+ */
+import type { AimInputSource, AimIntent } from '../aimInput';
+import { createGameEngine, type GameEngine } from './engine';
+import type { EngineCommand, EngineEvent } from './protocol';
+
+const post = (event: EngineEvent) => self.postMessage(event);
+
+// Keyboard and gamepad can only be read on the main thread; their intents are
+// posted here and drained by the engine on its next frame.
+const createRemoteAimSource = () => {
+    let pending: AimIntent = { drag: { x: 0, y: 0 }, draw: false, release: false, cancel: false };
+    const source: AimInputSource = {
+        read() {
+            const intent = pending;
+            pending = { drag: { x: 0, y: 0 }, draw: false, release: false, cancel: false };
+            return intent;
+        },
+        dispose() { /* nothing bound */ },
+    };
+    const push = (intent: AimIntent) => {
+        pending = {
+            drag: { x: pending.drag.x + intent.drag.x, y: pending.drag.y + intent.drag.y },
+            draw: pending.draw || intent.draw,
+            release: pending.release || intent.release,
+            cancel: pending.cancel || intent.cancel,
+        };
+    };
+    return { source, push };
+};
+
+const remoteAim = createRemoteAimSource();
+let engine: GameEngine | null = null;
+
+self.addEventListener('message', (e: MessageEvent<EngineCommand>) => {
+    const command = e.data;
+    if (command.type === 'init') {
+        engine = createGameEngine(command.canvas, {
+            shoot: (aim, aimDuration) => post({ type: 'shoot', aim, aimDuration }),
+            sound: (cue) => post({ type: 'sound', cue }),
+            canvasLost: () => post({ type: 'canvasLost' }),
+        });
+        engine.addInputSource(remoteAim.source);
+        post({ type: 'ready' });
+        return;
+    }
+    if (!engine) {
+        console.warn('Render worker got a command before init:', command.type);
+        return;
+    }
+
+    switch (command.type) {
+        case 'resize': engine.resize(command.width, command.height, command.dpr); break;
+        case 'setRoom': engine.setRoom(command.room); break;
+        case 'setViewer': engine.setViewer(command.viewer); break;
+        case 'setConfig': engine.setConfig(command.config); break;
+        case 'setTheme': engine.setTheme(command.theme); break;
+        case 'shotResult': engine.shotResult(command.result); break;
+        case 'reset': engine.reset(); break;
+        case 'aimIntent': remoteAim.push(command.intent); break;
+        case 'pointerDown': engine.pointerDown(command.x, command.y); break;
+        case 'pointerMove': engine.pointerMove(command.x, command.y); break;
+        case 'pointerUp': engine.pointerUp(); break;
+        case 'start': engine.start(); break;
+        case 'stop': engine.stop(); break;
+    }
+});
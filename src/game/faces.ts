@@ -0,0 +1,179 @@
+/**
+ * Target faces — what's pinned to the boss. A face is one or more scoring
+ * zones (a ring set, a balloon, a clay), each centered somewhere on the board,
+ * with the colours and labels it's drawn with. Geometry is in board units,
+ * like the rest of target.ts; the renderer, the mini plot on the results
+ * screen and local scoring all read it from here.
+ */
+import type { Point, Room } from '../types';
+
+export type FaceId = 'wa10' | 'wa3spot' | 'field' | 'balloon';
+
+export interface FaceRing {
+    r: number;
+    fill: string;
+    score: number;
+    ink?: string;          // label colour; unlabelled when absent
+}
+
+export interface FaceZone {
+    x: number;             // zone center, board units from the board center
+    y: number;
+    kind: 'rings' | 'balloon' | 'clay';
+    rings: FaceRing[];     // outside in
+}
+
+export interface TargetFace {
+    id: FaceId;
+    name: string;
+    maxScore: number;
+    paper: string;         // backing the zones are pinned to
+    line: string;          // ring borders
+    labelSize: number;     // px at unit target scale
+    xRing?: number;        // X ring radius inside each ring zone's center; scores as the center ring
+    cheer: string;         // called out on a max-score hit
+    zones: FaceZone[];
+}
+
+/** Every face fits on the boss within this radius of its center. */
+export const FACE_RADIUS = 120;
+
+const LIGHT_INK = 'rgba(0,0,0,0.4)';
+const DARK_INK = 'rgba(255,255,255,0.6)';
+
+// WA 10-ring, 3-spot and field faces share their ring colours
+const WA_GOLD = '#FFD600';
+
+const defineFace = (face: Omit<TargetFace, 'maxScore'>): TargetFace => ({
+    ...face,
+    maxScore: Math.max(...face.zones.flatMap(zone => zone.rings.map(ring => ring.score))),
+});
+
+const balloon = (x: number, y: number, r: number, fill: string, score: number): FaceZone =>
+    ({ x, y, kind: 'balloon', rings: [{ r, fill, score, ink: DARK_INK }] });
+
+export const FACES: Record<FaceId, TargetFace> = {
+    // Rings from outside in: score 1-10 (WA Archery standard)
+    // Colors: white(1-2), white(3), black(3-4), blue(5-6), red(7-8), gold(9-10), gold X
+    wa10: defineFace({
+        id: 'wa10',
+        name: 'WA 10-Ring',
+        paper: '#f0ece4',
+        line: 'rgba(0,0,0,0.15)',
+        labelSize: 10,
+        xRing: 8,
+        cheer: 'B U L L S E Y E',
+        zones: [{
+            x: 0, y: 0, kind: 'rings',
+            rings: [
+                { r: 120, fill: '#e8e4dc', score: 1, ink: LIGHT_INK },  // white
+                { r: 108, fill: '#e0dcd4', score: 2, ink: LIGHT_INK },  // white
+                { r: 96, fill: '#d8d4cc', score: 3, ink: LIGHT_INK },   // light gray
+                { r: 84, fill: '#222', score: 4, ink: DARK_INK },   // black
+                { r: 72, fill: '#333', score: 5, ink: DARK_INK },   // black
+                { r: 60, fill: '#2196F3', score: 6, ink: DARK_INK },   // blue
+                { r: 48, fill: '#1976D2', score: 7, ink: DARK_INK },   // blue
+                { r: 36, fill: '#f44336', score: 8, ink: DARK_INK },   // red
+                { r: 28, fill: '#d32f2f', score: 9, ink: DARK_INK },   // red
+                { r: 18, fill: WA_GOLD, score: 10 },  // gold/yellow
+            ],
+        }],
+    }),
+
+    // Three small faces stacked vertically, scoring 6-10 only: anything off a spot misses
+    wa3spot: defineFace({
+        id: 'wa3spot',
+        name: 'WA 3-Spot',
+        paper: '#f0ece4',
+        line: 'rgba(0,0,0,0.2)',
+        labelSize: 6,
+        xRing: 4,
+        cheer: 'B U L L S E Y E',
+        zones: [-86, 0, 86].map(y => ({
+            x: 0, y, kind: 'rings' as const,
+            rings: [
+                { r: 40, fill: '#1976D2', score: 6, ink: DARK_INK },
+                { r: 32, fill: '#f44336', score: 7, ink: DARK_INK },
+                { r: 24, fill: '#d32f2f', score: 8, ink: DARK_INK },
+                { r: 16, fill: WA_GOLD, score: 9, ink: LIGHT_INK },
+                { r: 8, fill: '#FFC107', score: 10 },
+            ],
+        })),
+    }),
+
+    // Field archery: six rings, black outers with white lines and a gold center
+    field: defineFace({
+        id: 'field',
+        name: 'Field',
+        paper: '#e4dfd4',
+        line: 'rgba(255,255,255,0.55)',
+        labelSize: 11,
+        xRing: 10,
+        cheer: 'S P O T  O N',
+        zones: [{
+            x: 0, y: 0, kind: 'rings',
+            rings: [
+                { r: 120, fill: '#1c1c1c', score: 1, ink: DARK_INK },
+                { r: 100, fill: '#1c1c1c', score: 2, ink: DARK_INK },
+                { r: 80, fill: '#1c1c1c', score: 3, ink: DARK_INK },
+                { r: 60, fill: '#1c1c1c', score: 4, ink: DARK_INK },
+                { r: 40, fill: WA_GOLD, score: 5, ink: LIGHT_INK },
+                { r: 20, fill: WA_GOLD, score: 6 },
+            ],
+        }],
+    }),
+
+    // Novelty board: pop a balloon, or break the clay in the middle for the big one
+    balloon: defineFace({
+        id: 'balloon',
+        name: 'Balloons',
+        paper: '#d9c7a3',
+        line: 'rgba(0,0,0,0.25)',
+        labelSize: 14,
+        cheer: 'S M A S H',
+        zones: [
+            balloon(-72, -66, 30, '#e53935', 3),
+            balloon(70, -70, 30, '#1e88e5', 3),
+            balloon(-70, 62, 26, '#43a047', 5),
+            balloon(72, 64, 26, '#fdd835', 5),
+            balloon(0, -98, 18, '#8e24aa', 7),
+            { x: 0, y: 8, kind: 'clay', rings: [{ r: 16, fill: '#ef6c00', score: 10, ink: DARK_INK }] },
+        ],
+    }),
+};
+
+export const FACE_IDS = Object.keys(FACES) as FaceId[];
+
+export const DEFAULT_FACE: FaceId = 'wa10';
+
+export const isFaceId = (value: unknown): value is FaceId =>
+    typeof value === 'string' && Object.hasOwn(FACES, value);
+
+/** The face a room is shot at. Rooms from before faces existed — or with one this client doesn't know — get the default. */
+export const roomFace = (room: Room | null): TargetFace =>
+    FACES[room && isFaceId(room.face) ? room.face : DEFAULT_FACE];
+
+/** Score a hit given its offset from the target center in screen pixels: the best zone it lands in. */
+export const scoreHit = (face: TargetFace, hit: Point, scale: number): number => {
+    const bx = hit.x / scale;
+    const by = hit.y / scale;
+    let best = 0;
+    for (const zone of face.zones) {
+        const dist = Math.hypot(bx - zone.x, by - zone.y);
+        for (const ring of zone.rings) {
+            if (dist <= ring.r) best = Math.max(best, ring.score);
+        }
+    }
+    return best;
+};
+
+export type ScoreTier = 'top' | 'high' | 'mid' | 'low' | 'miss';
+
+/** How good a score is on its face, for colours and sounds that used to assume 0-10. */
+export const scoreTier = (score: number, maxScore: number): ScoreTier => {
+    if (score <= 0) return 'miss';
+    if (score >= maxScore) return 'top';
+    if (score >= maxScore * 0.8) return 'high';
+    if (score >= maxScore * 0.5) return 'mid';
+    return 'low';
+};
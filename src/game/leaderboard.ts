@@ -0,0 +1,83 @@
+/**
+ * Leaderboard scopes — the time windows and result kinds a board can show,
+ * how a scope is written into the page URL so a link opens the same view,
+ * and the player's rank on each board as of their last visit.
+ */
+import type { LeaderboardScope } from '../types';
+
+type LeaderboardWindow = LeaderboardScope['window'];
+type LeaderboardMode = LeaderboardScope['mode'];
+
+export const LEADERBOARD_WINDOWS: { id: LeaderboardWindow; label: string }[] = [
+    { id: 'today', label: 'Today' },
+    { id: 'week', label: 'This Week' },
+    { id: 'all', label: 'All Time' },
+];
+
+export const LEADERBOARD_MODES: { id: LeaderboardMode; label: string; unit: string }[] = [
+    { id: 'solo', label: 'Timed Solo', unit: 'Points' },
+    { id: 'daily', label: 'Daily', unit: 'Points' },
+    { id: 'wins', label: 'Wins', unit: 'Wins' },
+];
+
+export const DEFAULT_SCOPE: LeaderboardScope = { window: 'all', mode: 'solo' };
+
+// Search params the scope is kept in; defaults are left out to keep links short
+const WINDOW_PARAM = 'window';
+const MODE_PARAM = 'board';
+
+const isWindow = (value: string | null): value is LeaderboardWindow =>
+    LEADERBOARD_WINDOWS.some(w => w.id === value);
+
+const isMode = (value: string | null): value is LeaderboardMode =>
+    LEADERBOARD_MODES.some(m => m.id === value);
+
+/** The scope a URL asks for; anything missing or unknown falls back to the default. */
+export const scopeFromParams = (params: URLSearchParams): LeaderboardScope => {
+    const window = params.get(WINDOW_PARAM);
+    const mode = params.get(MODE_PARAM);
+    return {
+        window: isWindow(window) ? window : DEFAULT_SCOPE.window,
+        mode: isMode(mode) ? mode : DEFAULT_SCOPE.mode,
+    };
+};
+
+/** `params` with `scope` written in, leaving any other params alone. */
+export const withScopeParams = (params: URLSearchParams, scope: LeaderboardScope): URLSearchParams => {
+    const next = new URLSearchParams(params);
+    if (scope.window === DEFAULT_SCOPE.window) next.delete(WINDOW_PARAM);
+    else next.set(WINDOW_PARAM, scope.window);
+    if (scope.mode === DEFAULT_SCOPE.mode) next.delete(MODE_PARAM);
+    else next.set(MODE_PARAM, scope.mode);
+    return next;
+};
+
+// ── Rank memory ──
+
+const RANKS_KEY = 'archr_lb_ranks';
+
+const scopeKey = ({ window, mode }: LeaderboardScope) => `${window}:${mode}`;
+
+const loadRanks = (): Record<string, number> => {
+    try {
+        const parsed: unknown = JSON.parse(localStorage.getItem(RANKS_KEY) || '{}');
+        return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed as Record<string, number> : {};
+    } catch (err) {
+        console.warn('Could not read stored leaderboard ranks:', err);
+        return {};
+    }
+};
+
+/** Where the player stood on this board last time they looked, if they were on it. */
+export const lastSeenRank = (scope: LeaderboardScope): number | null => {
+    const rank = loadRanks()[scopeKey(scope)];
+    return typeof rank === 'number' ? rank : null;
+};
+
+export const rememberRank = (scope: LeaderboardScope, rank: number) => {
+    try {
+        localStorage.setItem(RANKS_KEY, JSON.stringify({ ...loadRanks(), [scopeKey(scope)]: rank }));
+    } catch (err) {
+        console.warn('Could not store leaderboard rank:', err);
+    }
+};
@@ -0,0 +1,69 @@
+/**
+ * Per-seat fletching colors. Seat order is the order of `room.players`,
+ * so every player in a match (up to MAX_PLAYERS) gets a distinct palette.
+ */
+
+// Player fletching color palettes
+export interface FletchingColors {
+    grad: [string, string, string, string]; // gradient stops
+    inner: string;                          // inner face
+    outline: string;                        // outline stroke
+    highlight: string;                      // sheen highlight
+}
+
+export const FLETCHING_PALETTES: FletchingColors[] = [
+    { // Seat 1: Red
+        grad: ['#E83030', '#F04545', '#DD2020', '#AA1515'],
+        inner: 'rgba(120, 15, 15, 0.4)',
+        outline: 'rgba(80, 0, 0, 0.35)',
+        highlight: 'rgba(255, 180, 180, 0.2)',
+    },
+    { // Seat 2: Blue
+        grad: ['#2060E8', '#3575F0', '#1850DD', '#1035AA'],
+        inner: 'rgba(15, 30, 120, 0.4)',
+        outline: 'rgba(0, 0, 80, 0.35)',
+        highlight: 'rgba(180, 200, 255, 0.2)',
+    },
+    { // Seat 3: Green
+        grad: ['#2EAA4A', '#40C060', '#22963C', '#167028'],
+        inner: 'rgba(10, 70, 25, 0.4)',
+        outline: 'rgba(0, 50, 10, 0.35)',
+        highlight: 'rgba(180, 255, 200, 0.2)',
+    },
+    { // Seat 4: Yellow
+        grad: ['#F2C21B', '#F7D042', '#E0AE10', '#B08808'],
+        inner: 'rgba(110, 80, 5, 0.4)',
+        outline: 'rgba(80, 55, 0, 0.35)',
+        highlight: 'rgba(255, 245, 190, 0.25)',
+    },
+    { // Seat 5: Purple
+        grad: ['#8E44E0', '#A060F0', '#7A30CC', '#5A1E9E'],
+        inner: 'rgba(55, 15, 100, 0.4)',
+        outline: 'rgba(40, 0, 70, 0.35)',
+        highlight: 'rgba(220, 190, 255, 0.2)',
+    },
+    { // Seat 6: Orange
+        grad: ['#F07A1E', '#F59040', '#E06810', '#B04E08'],
+        inner: 'rgba(110, 45, 5, 0.4)',
+        outline: 'rgba(80, 30, 0, 0.35)',
+        highlight: 'rgba(255, 215, 180, 0.2)',
+    },
+    { // Seat 7: Teal
+        grad: ['#18B8B0', '#30CCC4', '#10A098', '#0A7872'],
+        inner: 'rgba(5, 75, 70, 0.4)',
+        outline: 'rgba(0, 55, 50, 0.35)',
+        highlight: 'rgba(180, 255, 250, 0.2)',
+    },
+    { // Seat 8: Pink
+        grad: ['#E83E9A', '#F05AAE', '#D82A88', '#A81C68'],
+        inner: 'rgba(110, 15, 60, 0.4)',
+        outline: 'rgba(80, 0, 40, 0.35)',
+        highlight: 'rgba(255, 190, 225, 0.2)',
+    },
+];
+
+export const paletteForSeat = (seat: number): FletchingColors =>
+    FLETCHING_PALETTES[Math.max(0, seat) % FLETCHING_PALETTES.length];
+
+/** Base fletching color for a seat — used for HUD chips, tables and the share card. */
+export const seatColor = (seat: number): string => paletteForSeat(seat).grad[0];
@@ -0,0 +1,70 @@
+/**
+ * Display names — what a player may rename themselves to. The server has the
+ * final say (and its own list); these checks catch the obvious cases before
+ * anything is sent, so the editor can explain what's wrong straight away.
+ */
+
+export const NAME_MIN_LENGTH = 3;
+export const NAME_MAX_LENGTH = 16;
+
+// Letters, digits, spaces, underscores and dashes — nothing that can pass for another player's name
+const NAME_PATTERN = /^[A-Za-z0-9 _-]+$/;
+
+// Offensive as a word or the stem of one (shitty, fuckers), however it's spelled.
+// Matched on whole words only: as substrings they turn up in ordinary words (Scunthorpe, Swanky).
+const BLOCKED_STEMS = [
+    'fuck', 'shit', 'cunt', 'bitch', 'nigger', 'nigga', 'faggot', 'whore',
+    'slut', 'wank', 'twat', 'pussy', 'bastard', 'retard', 'nazi', 'hitler',
+];
+const STEM_ENDINGS = ['', 's', 'es', 'er', 'ers', 'ed', 'ing', 'y', 'ty'];
+
+// Only offensive as exactly that word
+const BLOCKED_WORDS = ['fag', 'dick', 'cock', 'rape', 'ass', 'tit', 'tits', 'kkk'];
+
+// Digits and symbols standing in for letters
+const LOOKALIKES: Record<string, string> = {
+    '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '@': 'a', '$': 's',
+};
+
+const fold = (text: string) =>
+    text.toLowerCase().replace(/[0-9@$]/g, ch => LOOKALIKES[ch] ?? ch);
+
+/** Trim the ends and collapse runs of spaces. */
+export const normalizeName = (raw: string): string =>
+    raw.trim().replace(/\s+/g, ' ');
+
+/**
+ * The name's words, split at spaces, symbols and camelCase humps. Letters
+ * spaced out one at a time ("f u c k") are read as the word they spell.
+ */
+const wordsOf = (name: string): string[] => {
+    const pieces = fold(name.replace(/([a-z])([A-Z])/g, '$1 $2')).split(/[^a-z]+/).filter(Boolean);
+    const words: string[] = [];
+    let spelled = '';
+    for (const piece of pieces) {
+        if (piece.length === 1) {
+            spelled += piece;
+            continue;
+        }
+        if (spelled) words.push(spelled);
+        spelled = '';
+        words.push(piece);
+    }
+    if (spelled) words.push(spelled);
+    return words;
+};
+
+const isBlockedWord = (word: string) =>
+    BLOCKED_WORDS.includes(word)
+    || BLOCKED_STEMS.some(stem => word.startsWith(stem) && STEM_ENDINGS.includes(word.slice(stem.length)));
+
+export const isBlockedName = (name: string): boolean => wordsOf(name).some(isBlockedWord);
+
+/** Why `name` can't be used, or null if it can. Expects a normalized name. */
+export const nameProblem = (name: string): string | null => {
+    if (name.length < NAME_MIN_LENGTH) return `At least ${NAME_MIN_LENGTH} characters`;
+    if (name.length > NAME_MAX_LENGTH) return `At most ${NAME_MAX_LENGTH} characters`;
+    if (!NAME_PATTERN.test(name)) return 'Letters, numbers, spaces, _ and - only';
+    if (isBlockedName(name)) return 'Please pick a different name';
+    return null;
+};
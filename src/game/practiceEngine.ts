@@ -0,0 +1,140 @@
+/**
+ * Practice engine — an offline stand-in for the game server.
+ * Wind, hit point and ring score are all computed in the browser, so a
+ * practice session works with no connection and never reaches the leaderboard.
+ */
+import type { Point, Room, TargetMotion } from '../types';
+import { createChannelEmitter, type GameChannel } from './channel';
+import { targetOffset, advancePhase, DEFAULT_TARGET_SCALE } from './target';
+import { DEFAULT_FACE, roomFace, scoreHit, type FaceId } from './faces';
+import { distanceSpec } from './distance';
+
+/** Player id used when practising before (or without) registering. */
+export const LOCAL_PLAYER_ID = 'local';
+
+/** Arrows per practice session (two ends of six). */
+export const PRACTICE_ARROWS = 12;
+
+const ARROWS_PER_END = 6;
+
+/** Each end is shot from farther back (meters). */
+const END_DISTANCES = [18, 30];
+
+const distanceForArrow = (round: number) =>
+    END_DISTANCES[Math.min(Math.floor((round - 1) / ARROWS_PER_END), END_DISTANCES.length - 1)];
+
+/** Max wind per axis. */
+const MAX_WIND = 2.5;
+
+// Pixels of drift per unit of wind at 18m — mirrors the flight animation's default drift factors
+const WIND_DRIFT = { x: 6, y: 3 };
+
+// How far ahead the target is scored at 18m — mirrors the flight animation's default duration (ms)
+const LEAD_TIME = 350;
+
+/** Random release error in pixels, so a perfectly centered reticle isn't always an X. */
+const RELEASE_JITTER = 2;
+
+export interface PracticeChannel extends GameChannel {
+    /** Reset to a fresh session and publish the initial room state. */
+    start(): void;
+    /** Stop any pending work. */
+    dispose(): void;
+}
+
+const randomWind = (): Point => ({
+    x: (Math.random() * 2 - 1) * MAX_WIND,
+    y: (Math.random() * 2 - 1) * MAX_WIND,
+});
+
+const MOTION_PATHS: TargetMotion['path'][] = ['slide', 'swing', 'bob'];
+
+// One path for the session; phase is filled in when the room is published
+const randomMotion = (): TargetMotion => {
+    const path = MOTION_PATHS[Math.floor(Math.random() * MOTION_PATHS.length)];
+    return {
+        path,
+        amplitude: path === 'swing' ? 140 + Math.random() * 60 : 50 + Math.random() * 50,
+        period: 2400 + Math.random() * 1600,
+        phase: 0,
+    };
+};
+
+export interface PracticeOptions {
+    movingTarget?: boolean;
+    face?: FaceId;
+}
+
+export const createPracticeChannel = (playerId: string, { movingTarget = false, face = DEFAULT_FACE }: PracticeOptions = {}): PracticeChannel => {
+    const emitter = createChannelEmitter();
+    let room: Room | null = null;
+    let startTimeout: ReturnType<typeof setTimeout> | null = null;
+    // The target's clock: its motion is at phase 0 at this time
+    let motionEpoch = 0;
+
+    const phaseAt = (motion: TargetMotion, time: number) => advancePhase({ ...motion, phase: 0 }, time - motionEpoch);
+
+    const publish = (next: Room) => {
+        room = next.targetMotion
+            ? { ...next, targetMotion: { ...next.targetMotion, phase: phaseAt(next.targetMotion, performance.now()) } }
+            : next;
+        emitter.emit('gameState', room);
+    };
+
+    return {
+        on: emitter.on,
+
+        start() {
+            if (startTimeout) clearTimeout(startTimeout);
+            const initial: Room = {
+                id: 'practice',
+                mode: 'practice',
+                players: [{ id: playerId, userId: playerId, score: 0 }],
+                currentTurn: playerId,
+                round: 1,
+                maxRounds: PRACTICE_ARROWS,
+                wind: randomWind(),
+                timeLimit: 0,
+                timeRemaining: 0,
+                startedAt: Date.now(),
+                distance: distanceForArrow(1),
+                face,
+                ...(movingTarget && { targetMotion: randomMotion() }),
+            };
+            motionEpoch = performance.now();
+            // Publish asynchronously, like a server response, so subscribers attached
+            // in the same tick see it
+            startTimeout = setTimeout(() => publish(initial), 0);
+        },
+
+        shoot(aimPosition) {
+            if (!room || room.round > room.maxRounds) return;
+
+            const range = distanceSpec(room.distance);
+            // A moving target is scored where it will be when the arrow gets there
+            const motion = room.targetMotion;
+            const arrival = performance.now() + LEAD_TIME * range.flightTime;
+            const moved = motion ? targetOffset(motion, phaseAt(motion, arrival)) : { x: 0, y: 0 };
+            const hit = {
+                x: aimPosition.x + room.wind.x * WIND_DRIFT.x * range.drift + (Math.random() * 2 - 1) * RELEASE_JITTER - moved.x,
+                y: aimPosition.y + room.wind.y * WIND_DRIFT.y * range.drift + (Math.random() * 2 - 1) * RELEASE_JITTER - moved.y,
+            };
+            const score = scoreHit(roomFace(room), hit, DEFAULT_TARGET_SCALE * range.scale);
+
+            emitter.emit('shotResult', { player: playerId, path: [hit], score });
+
+            publish({
+                ...room,
+                players: room.players.map(p => p.userId === playerId ? { ...p, score: p.score + score } : p),
+                round: room.round + 1,
+                wind: randomWind(),
+                distance: distanceForArrow(room.round + 1),
+            });
+        },
+
+        dispose() {
+            if (startTimeout) clearTimeout(startTimeout);
+            startTimeout = null;
+        },
+    };
+};
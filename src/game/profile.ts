@@ -0,0 +1,91 @@
+/**
+ * Player profiles — lifetime statistics the server compiles per userId,
+ * kept in IndexedDB so a profile opened once can be viewed again offline.
+ * Hit lists run to thousands of points, more than localStorage should hold.
+ */
+import type { PlayerProfile, Point } from '../types';
+import { isPlayerProfile } from '../socket/validation';
+
+const DB_NAME = 'archr';
+const DB_VERSION = 1;
+const PROFILE_STORE = 'profiles';   // keyed by userId
+
+// ── Offline cache ──
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!database) {
+        database = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(PROFILE_STORE, { keyPath: 'userId' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // A failed open (private browsing, blocked storage) is retried next time
+        database.catch(() => { database = null; });
+    }
+    return database;
+};
+
+/** The profile as last seen from the server; null if it was never cached or storage is unavailable. */
+export const loadCachedProfile = async (userId: string): Promise<PlayerProfile | null> => {
+    try {
+        const db = await openDatabase();
+        const stored = await new Promise<unknown>((resolve, reject) => {
+            const request = db.transaction(PROFILE_STORE, 'readonly').objectStore(PROFILE_STORE).get(userId);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        return isPlayerProfile(stored) ? stored : null;
+    } catch (err) {
+        console.warn('Could not read cached profile:', err);
+        return null;
+    }
+};
+
+export const cacheProfile = async (profile: PlayerProfile): Promise<void> => {
+    try {
+        const db = await openDatabase();
+        await new Promise<void>((resolve, reject) => {
+            const tx = db.transaction(PROFILE_STORE, 'readwrite');
+            tx.objectStore(PROFILE_STORE).put(profile);
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (err) {
+        console.warn('Could not cache profile:', err);
+    }
+};
+
+// ── Derived statistics ──
+
+/** Points per arrow; 0 before the first shot. */
+export const averagePerShot = (profile: PlayerProfile) =>
+    profile.shots > 0 ? profile.totalScore / profile.shots : 0;
+
+/** Share of arrows (0 → 1) in the top-scoring ring. */
+export const bullseyeRate = (profile: PlayerProfile) =>
+    profile.shots > 0 ? profile.bullseyes / profile.shots : 0;
+
+export interface HeatCell {
+    x: number;             // cell's top-left corner, board units
+    y: number;
+    count: number;
+}
+
+/** Bin hits into square cells of `size` board units; empty cells are left out. */
+export const heatmapCells = (hits: Point[], size: number): HeatCell[] => {
+    const cells = new Map<string, HeatCell>();
+    for (const hit of hits) {
+        const x = Math.floor(hit.x / size) * size;
+        const y = Math.floor(hit.y / size) * size;
+        const key = `${x},${y}`;
+        const cell = cells.get(key);
+        if (cell) cell.count++;
+        else cells.set(key, { x, y, count: 1 });
+    }
+    return [...cells.values()];
+};
@@ -0,0 +1,52 @@
+/**
+ * Ranked play — Elo ratings and the rank tiers shown next to names. The
+ * server keeps each userId's rating and applies the change after a ranked
+ * match; the same formula here lets the results screen show what was at stake.
+ */
+import type { Player, Room } from '../types';
+
+/** Where every archer starts. */
+export const DEFAULT_RATING = 1200;
+
+/** Most a single match can move a rating. */
+export const K_FACTOR = 32;
+
+export interface RankTier {
+    name: string;
+    min: number;           // lowest rating in the tier
+    color: string;
+}
+
+// Lowest first
+export const RANK_TIERS: RankTier[] = [
+    { name: 'Bronze', min: 0, color: '#b0794a' },
+    { name: 'Silver', min: 1100, color: '#aab4be' },
+    { name: 'Gold', min: 1300, color: '#c9a84c' },
+    { name: 'Platinum', min: 1500, color: '#6ee7b7' },
+    { name: 'Diamond', min: 1700, color: '#7dd3fc' },
+    { name: 'Master', min: 1900, color: '#c084fc' },
+];
+
+export const rankFor = (rating: number): RankTier =>
+    RANK_TIERS.reduce((tier, next) => rating >= next.min ? next : tier);
+
+/** Chance (0 → 1) that `rating` beats `opponent`, counting a draw as half. */
+export const expectedScore = (rating: number, opponent: number) =>
+    1 / (1 + 10 ** ((opponent - rating) / 400));
+
+/** 1 for a win, 0.5 for a draw, 0 for a loss. */
+export type MatchResult = 1 | 0.5 | 0;
+
+export const matchResult = (score: number, opponentScore: number): MatchResult =>
+    score > opponentScore ? 1 : score < opponentScore ? 0 : 0.5;
+
+/** Rating points won (or lost, negative) for `result` against `opponent`. */
+export const ratingDelta = (rating: number, opponent: number, result: MatchResult) =>
+    Math.round(K_FACTOR * (result - expectedScore(rating, opponent)));
+
+/** A player's rating going into the match; unrated players count as new. */
+export const playerRating = (player: Player | undefined) => player?.rating ?? DEFAULT_RATING;
+
+/** The server's rating change for `userId`, once the match is over. */
+export const ratingChangeFor = (room: Room, userId: string | undefined) =>
+    room.ratingChanges?.find(change => change.userId === userId);
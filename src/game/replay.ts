@@ -0,0 +1,248 @@
+/**
+ * Match replays — the timeline of room states and shots a game screen saw,
+ * recorded with timestamps, kept in localStorage and played back through a
+ * GameChannel so the canvas animates it exactly like a live match.
+ */
+import type { Replay, ReplayEvent, Room, ShotResult } from '../types';
+import { isReplay } from '../socket/validation';
+import { createChannelEmitter, type GameChannel } from './channel';
+
+const STORAGE_KEY = 'archr_replays';
+
+/** Oldest replays are dropped beyond this, to stay well inside the storage quota. */
+const MAX_STORED_REPLAYS = 10;
+
+// ── Recording ──
+
+export interface ReplayRecorder {
+    gameState(room: Room): void;
+    shotResult(result: ShotResult): void;
+    /** Package everything recorded so far; null if the match never started. */
+    finish(playerId: string): Replay | null;
+}
+
+const newReplayId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+export const createReplayRecorder = (): ReplayRecorder => {
+    const events: ReplayEvent[] = [];
+    let startedAt: number | null = null;
+
+    const stamp = () => {
+        const now = performance.now();
+        if (startedAt === null) startedAt = now;
+        return Math.round(now - startedAt);
+    };
+
+    return {
+        gameState(room) {
+            // The lobby isn't part of the match
+            if (room.status === 'lobby') return;
+            events.push({ t: stamp(), type: 'gameState', payload: room });
+        },
+
+        shotResult(result) {
+            // A shot before the first state has nothing to land on
+            if (startedAt === null) return;
+            events.push({ t: stamp(), type: 'shotResult', payload: result });
+        },
+
+        finish(playerId) {
+            const first = events.find(e => e.type === 'gameState');
+            if (!first || first.type !== 'gameState') return null;
+            return {
+                version: 1,
+                id: newReplayId(),
+                recordedAt: Date.now(),
+                playerId,
+                mode: first.payload.mode,
+                events: [...events],
+            };
+        },
+    };
+};
+
+// ── Storage ──
+
+/** Saved replays, newest first. Entries that fail validation are skipped. */
+export const listReplays = (): Replay[] => {
+    try {
+        const parsed: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+        return Array.isArray(parsed) ? parsed.filter(isReplay) : [];
+    } catch (err) {
+        console.warn('Could not read stored replays:', err);
+        return [];
+    }
+};
+
+export const loadReplay = (id: string): Replay | null =>
+    listReplays().find(r => r.id === id) ?? null;
+
+const storeReplays = (replays: Replay[]) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(replays));
+    } catch (err) {
+        console.warn('Could not store replays:', err);
+    }
+};
+
+/** Store a replay, dropping the oldest others to make room — never the one just saved, however old (imports). */
+export const saveReplay = (replay: Replay) => {
+    const others = listReplays()
+        .filter(r => r.id !== replay.id)
+        .sort((a, b) => b.recordedAt - a.recordedAt)
+        .slice(0, MAX_STORED_REPLAYS - 1);
+    storeReplays([replay, ...others].sort((a, b) => b.recordedAt - a.recordedAt));
+};
+
+export const deleteReplay = (id: string) => {
+    storeReplays(listReplays().filter(r => r.id !== id));
+};
+
+// ── Import / export ──
+
+/** Download a replay as a JSON file. */
+export const exportReplay = (replay: Replay) => {
+    const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `archr-replay-${replay.id}.json`;
+    // Firefox ignores clicks on detached anchors, and some browsers start the
+    // download after click() returns, so the URL has to outlive this task
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/** Read a replay from a user-picked file. Resolves null if it isn't a valid replay. */
+export const importReplayFile = async (file: File): Promise<Replay | null> => {
+    try {
+        const parsed: unknown = JSON.parse(await file.text());
+        if (!isReplay(parsed)) {
+            console.error('Rejected malformed replay file:', file.name);
+            return null;
+        }
+        return parsed;
+    } catch (err) {
+        console.error('Could not read replay file:', err);
+        return null;
+    }
+};
+
+// ── Playback ──
+
+export interface ReplayChannel extends GameChannel {
+    /** Length of the recording in ms. */
+    readonly duration: number;
+    /** Current playback position in ms. */
+    position(): number;
+    isPlaying(): boolean;
+    play(): void;
+    pause(): void;
+    /** Jump to a position: publishes the room as it stood then, without replaying shots. */
+    seek(ms: number): void;
+    setSpeed(speed: number): void;
+    /** Stop any pending work. */
+    dispose(): void;
+}
+
+export const createReplayChannel = (replay: Replay): ReplayChannel => {
+    const emitter = createChannelEmitter();
+    const { events } = replay;
+    const duration = events.length > 0 ? events[events.length - 1].t : 0;
+
+    let cursor = 0;          // index of the next event to emit
+    let basePosition = 0;    // position when playback last (re)started
+    let baseTime = 0;        // performance.now() at that moment
+    let playing = false;
+    let speed = 1;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const position = () => playing
+        ? Math.min(duration, basePosition + (performance.now() - baseTime) * speed)
+        : basePosition;
+
+    const emit = (event: ReplayEvent) => {
+        if (event.type === 'gameState') emitter.emit('gameState', event.payload);
+        else emitter.emit('shotResult', event.payload);
+    };
+
+    const clearTimer = () => {
+        if (timer) clearTimeout(timer);
+        timer = null;
+    };
+
+    // Emit everything that is due, then sleep until the next event
+    const tick = () => {
+        clearTimer();
+        if (!playing) return;
+
+        const now = position();
+        while (cursor < events.length && events[cursor].t <= now) {
+            emit(events[cursor++]);
+        }
+
+        if (cursor >= events.length) {
+            basePosition = duration;
+            playing = false;
+            return;
+        }
+        timer = setTimeout(tick, (events[cursor].t - now) / speed);
+    };
+
+    const rebase = () => {
+        basePosition = position();
+        baseTime = performance.now();
+    };
+
+    const seek = (ms: number) => {
+        const target = Math.max(0, Math.min(duration, ms));
+        basePosition = target;
+        baseTime = performance.now();
+
+        // Publish the latest room state at or before the target
+        cursor = events.findIndex(e => e.t > target);
+        if (cursor === -1) cursor = events.length;
+        const state = events.slice(0, Math.max(cursor, 1)).reverse().find(e => e.type === 'gameState');
+        if (state) emit(state);
+
+        tick();
+    };
+
+    return {
+        on: emitter.on,
+        shoot: () => { /* replays are read-only */ },
+        duration,
+        position,
+        isPlaying: () => playing,
+
+        play() {
+            if (playing) return;
+            if (basePosition >= duration) seek(0);
+            baseTime = performance.now();
+            playing = true;
+            tick();
+        },
+
+        pause() {
+            if (!playing) return;
+            rebase();
+            playing = false;
+            clearTimer();
+        },
+
+        seek,
+
+        setSpeed(next) {
+            rebase();
+            speed = next;
+            tick();
+        },
+
+        dispose() {
+            playing = false;
+            clearTimer();
+        },
+    };
+};
@@ -0,0 +1,22 @@
+/**
+ * Private room join codes — short, case-insensitive, shareable as a deep link.
+ */
+
+export const ROOM_CODE_LENGTH = 5;
+
+/** A private match can start once this many players have joined. */
+export const MIN_PLAYERS_TO_START = 2;
+
+/** Seats per room — one per fletching palette. */
+export const MAX_PLAYERS = 8;
+
+/** Uppercase and strip anything that can't appear in a code (spaces, dashes, typos). */
+export const normalizeRoomCode = (raw: string): string =>
+    raw.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, ROOM_CODE_LENGTH);
+
+export const isValidRoomCode = (code: string): boolean =>
+    normalizeRoomCode(code).length === ROOM_CODE_LENGTH;
+
+/** Deep link that drops a colleague straight into the lobby. */
+export const roomLink = (code: string): string =>
+    `${window.location.origin}/game/multiplayer/${code}`;
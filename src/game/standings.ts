@@ -0,0 +1,38 @@
+/**
+ * Match standings — ranking and labelling players for results screens.
+ */
+import type { Player, Room } from '../types';
+
+export interface Standing {
+    player: Player;
+    seat: number;   // index in room.players (drives fletching color)
+    rank: number;   // 1-based; tied scores share a rank
+}
+
+/** Rank players by score, highest first. Ties share the better rank (1, 1, 3…). */
+export const rankPlayers = (players: Player[]): Standing[] => {
+    const sorted = players
+        .map((player, seat) => ({ player, seat }))
+        .sort((a, b) => b.player.score - a.player.score);
+
+    return sorted.map((entry, i) => {
+        const firstWithScore = sorted.findIndex(e => e.player.score === entry.player.score);
+        return { ...entry, rank: (firstWithScore === -1 ? i : firstWithScore) + 1 };
+    });
+};
+
+/** Players in the order they'll shoot, starting with whoever's turn it is. */
+export const turnOrder = (room: Room): Standing[] => {
+    const seats = room.players.map((player, seat) => ({ player, seat, rank: 0 }));
+    const current = seats.findIndex(s => s.player.userId === room.currentTurn);
+    if (current <= 0) return seats;
+    return [...seats.slice(current), ...seats.slice(0, current)];
+};
+
+export const displayName = (player: Player, seat: number): string =>
+    player.name || `Archer ${seat + 1}`;
+
+export const ordinal = (n: number): string => {
+    const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[n % 10] || 'th';
+    return `${n}${suffix}`;
+};
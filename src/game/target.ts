@@ -0,0 +1,33 @@
+/**
+ * Target geometry shared by the renderer and local scoring.
+ * Radii are in board units; the board is drawn scaled by the target scale,
+ * so a hit offset in screen pixels maps to board units via `offset / scale`.
+ * The faces pinned to the board, and their scoring, are in faces.ts.
+ */
+import type { Point, TargetMotion } from '../types';
+
+/** Default on-screen scale of the target board. */
+export const DEFAULT_TARGET_SCALE = 0.6;
+
+// ── Moving targets ──
+
+/** Largest swing angle either side of hanging straight down (radians). */
+const SWING_ANGLE = 0.6;
+
+/** Cycle position `ms` after the motion's phase was sampled. */
+export const advancePhase = (motion: TargetMotion, ms: number) =>
+    (((motion.phase + ms / motion.period) % 1) + 1) % 1;
+
+/** Offset of a moving target from its resting center at cycle position `phase` (0 → 1). */
+export const targetOffset = (motion: TargetMotion, phase: number): Point => {
+    const wave = Math.sin(phase * Math.PI * 2);
+    switch (motion.path) {
+        case 'slide': return { x: motion.amplitude * wave, y: 0 };
+        case 'bob': return { x: 0, y: motion.amplitude * wave };
+        case 'swing': {
+            // Hangs from a pivot `amplitude` above its resting center
+            const angle = SWING_ANGLE * wave;
+            return { x: motion.amplitude * Math.sin(angle), y: motion.amplitude * (1 - Math.cos(angle)) };
+        }
+    }
+};
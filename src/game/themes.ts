@@ -0,0 +1,314 @@
+/**
+ * Environment themes — where the range is and what time it is. A theme is
+ * the scene's palette, the painters for its static background and for the
+ * scenery that moves in the wind, the particles drifting over it, and the
+ * sound bed under the match.
+ */
+import type { Room } from '../types';
+import type { Ctx2D } from './engine/draw';
+import type { Layout } from './engine/scene';
+
+export type ThemeId = 'day' | 'dusk' | 'night' | 'snow' | 'indoor';
+
+/** The settings choice: a theme, or a fresh pick each match. */
+export type ThemePreference = ThemeId | 'random';
+
+export interface ThemePalette {
+    sky: [string, string];        // top → horizon
+    ground: [string, string];     // horizon → bottom
+}
+
+/** Paints one static layer of the background, back to front. Cached by the renderer. */
+export type BackgroundLayer = (ctx: Ctx2D, layout: Layout) => void;
+
+export type AmbientKind = 'pollen' | 'fireflies' | 'snow' | 'motes';
+
+export interface AmbientSpec {
+    kind: AmbientKind;
+    count: number;
+    color: string;
+}
+
+/** What the wind blows across the screen. */
+export interface DebrisSpec {
+    kind: 'leaves' | 'rain';
+    color: string;
+}
+
+/** Synthesized ambience, so themes don't ship audio files. Levels are 0 → 1. */
+export interface SoundBed {
+    wind: number;                 // filtered noise
+    windTone: number;             // lowpass cutoff (Hz) — lower is a duller, more distant wind
+    hum?: number;                 // mains hum from lights
+    life?: 'birds' | 'crickets';
+    lifeLevel?: number;
+}
+
+export interface Theme {
+    id: ThemeId;
+    name: string;
+    palette: ThemePalette;
+    background: BackgroundLayer[];
+    foliage: BackgroundLayer | null;   // tree line; leans with the wind, pivoting on the horizon
+    grass: string | null;              // foreground tuft color; null where nothing grows
+    debris: DebrisSpec | null;
+    ambient: AmbientSpec | null;
+    soundBed: SoundBed;
+}
+
+// ── Background painters ──
+
+const sky = ([top, horizon]: [string, string]): BackgroundLayer => (ctx, { w, h }) => {
+    const gradient = ctx.createLinearGradient(0, 0, 0, h * 0.6);
+    gradient.addColorStop(0, top);
+    gradient.addColorStop(1, horizon);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, w, h);
+};
+
+const ground = ([horizon, bottom]: [string, string]): BackgroundLayer => (ctx, { w, h, horizonY }) => {
+    const gradient = ctx.createLinearGradient(0, horizonY, 0, h);
+    gradient.addColorStop(0, horizon);
+    gradient.addColorStop(1, bottom);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, horizonY, w, h - horizonY);
+};
+
+// Lines converging on the horizon: mowing stripes, ski tracks, lane markings
+const groundLines = (color: string, spacing = 80): BackgroundLayer => (ctx, { h, centerX, horizonY }) => {
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let i = -20; i <= 20; i++) {
+        ctx.moveTo(centerX + i * spacing, h);
+        ctx.lineTo(centerX + i * 2, horizonY);
+    }
+    ctx.stroke();
+};
+
+// Deterministic scatter, so cached backgrounds look the same on every resize
+const scatter = (i: number, salt: number) => {
+    const x = Math.sin(i * 127.1 + salt * 311.7) * 43758.5453;
+    return x - Math.floor(x);
+};
+
+const sunGlow = (color: string, height: number): BackgroundLayer => (ctx, { w, centerX, horizonY }) => {
+    const y = horizonY - height;
+    const glow = ctx.createRadialGradient(centerX * 1.4, y, 0, centerX * 1.4, y, w * 0.5);
+    glow.addColorStop(0, color);
+    glow.addColorStop(1, 'rgba(0,0,0,0)');
+    ctx.fillStyle = glow;
+    ctx.fillRect(0, 0, w, horizonY);
+};
+
+const stars = (count: number): BackgroundLayer => (ctx, { w, horizonY }) => {
+    for (let i = 0; i < count; i++) {
+        ctx.globalAlpha = 0.3 + scatter(i, 3) * 0.7;
+        ctx.fillStyle = '#f5f3e8';
+        ctx.beginPath();
+        ctx.arc(scatter(i, 1) * w, scatter(i, 2) * horizonY * 0.9, 0.5 + scatter(i, 4), 0, Math.PI * 2);
+        ctx.fill();
+    }
+    ctx.globalAlpha = 1;
+};
+
+const moon: BackgroundLayer = (ctx, { w, horizonY }) => {
+    const x = w * 0.8, y = horizonY * 0.25;
+    const halo = ctx.createRadialGradient(x, y, 0, x, y, 90);
+    halo.addColorStop(0, 'rgba(230, 236, 255, 0.25)');
+    halo.addColorStop(1, 'rgba(230, 236, 255, 0)');
+    ctx.fillStyle = halo;
+    ctx.fillRect(x - 90, y - 90, 180, 180);
+    ctx.fillStyle = '#eef1f8';
+    ctx.beginPath(); ctx.arc(x, y, 22, 0, Math.PI * 2); ctx.fill();
+};
+
+// The original field's tree line: pointed conifers behind, rounded trees in front
+const treeLine = (back: string, front: string): BackgroundLayer => (ctx, { w, horizonY }) => {
+    ctx.fillStyle = back;
+    for (let i = -100; i < w + 100; i += 45) {
+        const treeH = 60 + Math.sin(i * 0.1) * 15;
+        ctx.beginPath();
+        ctx.moveTo(i, horizonY);
+        ctx.lineTo(i + 22, horizonY - treeH);
+        ctx.lineTo(i + 45, horizonY);
+        ctx.fill();
+    }
+    ctx.fillStyle = front;
+    for (let i = -50; i < w + 100; i += 90) {
+        const treeH = 80 + Math.cos(i) * 20;
+        ctx.beginPath();
+        ctx.arc(i, horizonY - treeH, 30, 0, Math.PI * 2);
+        ctx.arc(i - 20, horizonY - treeH + 20, 25, 0, Math.PI * 2);
+        ctx.arc(i + 20, horizonY - treeH + 20, 25, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillRect(i - 5, horizonY - 40, 10, 40);
+    }
+};
+
+// Tall, dense forest edge in two rows
+const forest = (back: string, front: string): BackgroundLayer => (ctx, { w, horizonY }) => {
+    const rows = [{ color: back, step: 32, height: 110 }, { color: front, step: 54, height: 80 }];
+    rows.forEach(({ color, step, height }, row) => {
+        ctx.fillStyle = color;
+        for (let i = -60; i < w + 60; i += step) {
+            const treeH = height + scatter(i, row + 7) * 50;
+            ctx.beginPath();
+            ctx.moveTo(i - 20, horizonY);
+            ctx.lineTo(i, horizonY - treeH);
+            ctx.lineTo(i + 20, horizonY);
+            ctx.fill();
+        }
+    });
+};
+
+const snowyPines: BackgroundLayer = (ctx, { w, horizonY }) => {
+    for (let i = -60; i < w + 60; i += 58) {
+        const treeH = 70 + scatter(i, 9) * 40;
+        const half = treeH * 0.32;
+        ctx.fillStyle = '#3d5a4e';
+        ctx.beginPath();
+        ctx.moveTo(i - half, horizonY);
+        ctx.lineTo(i, horizonY - treeH);
+        ctx.lineTo(i + half, horizonY);
+        ctx.fill();
+        // Snow on the upper branches
+        ctx.fillStyle = '#f4f7fa';
+        ctx.beginPath();
+        ctx.moveTo(i - half * 0.45, horizonY - treeH * 0.55);
+        ctx.lineTo(i, horizonY - treeH);
+        ctx.lineTo(i + half * 0.45, horizonY - treeH * 0.55);
+        ctx.fill();
+    }
+};
+
+const floodlights: BackgroundLayer = (ctx, { w, h, horizonY }) => {
+    [w * 0.12, w * 0.88].forEach(x => {
+        const top = horizonY - 170;
+        // Light cone
+        ctx.save();
+        ctx.globalCompositeOperation = 'lighter';
+        const cone = ctx.createLinearGradient(0, top, 0, h);
+        cone.addColorStop(0, 'rgba(255, 244, 214, 0.22)');
+        cone.addColorStop(1, 'rgba(255, 244, 214, 0)');
+        ctx.fillStyle = cone;
+        ctx.beginPath();
+        ctx.moveTo(x - 8, top);
+        ctx.lineTo(x + 8, top);
+        ctx.lineTo(w / 2 + (x - w / 2) * 0.2 + 160, h);
+        ctx.lineTo(w / 2 + (x - w / 2) * 0.2 - 160, h);
+        ctx.closePath();
+        ctx.fill();
+        ctx.restore();
+        // Pole and lamp head
+        ctx.fillStyle = '#20262c';
+        ctx.fillRect(x - 2, top, 4, horizonY - top);
+        ctx.fillStyle = '#fff7df';
+        ctx.shadowColor = 'rgba(255, 244, 214, 0.9)';
+        ctx.shadowBlur = 18;
+        ctx.fillRect(x - 14, top - 6, 28, 8);
+        ctx.shadowBlur = 0;
+    });
+};
+
+const indoorHall: BackgroundLayer = (ctx, { w, horizonY }) => {
+    // Back wall panels
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.18)';
+    for (let x = 0; x < w; x += 120) ctx.fillRect(x, 0, 2, horizonY);
+    // Ceiling light strips
+    ctx.fillStyle = '#fff3d6';
+    ctx.shadowColor = 'rgba(255, 236, 190, 0.8)';
+    ctx.shadowBlur = 14;
+    for (let x = w * 0.1; x < w; x += w * 0.2) ctx.fillRect(x - 30, 24, 60, 4);
+    ctx.shadowBlur = 0;
+    // Backstop behind the target
+    ctx.fillStyle = '#2a3b2c';
+    ctx.fillRect(w * 0.2, horizonY - 150, w * 0.6, 150);
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.25)';
+    ctx.fillRect(w * 0.2, horizonY - 6, w * 0.6, 6);
+};
+
+// ── Registry ──
+
+const theme = (t: Omit<Theme, 'background'>, ...layers: BackgroundLayer[]): Theme => ({
+    ...t,
+    background: [sky(t.palette.sky), ground(t.palette.ground), ...layers],
+});
+
+export const THEMES: Record<ThemeId, Theme> = {
+    day: theme({
+        id: 'day',
+        name: 'Sunny Field',
+        palette: { sky: ['#58a7e8', '#a3d8f7'], ground: ['#598c3e', '#2f5a18'] },
+        foliage: treeLine('#1e3f1b', '#2d5a27'),
+        grass: '#3f7a2a',
+        debris: { kind: 'leaves', color: '#6b9a3a' },
+        ambient: { kind: 'pollen', count: 14, color: '#fff3b0' },
+        soundBed: { wind: 0.25, windTone: 700, life: 'birds', lifeLevel: 0.3 },
+    }, groundLines('rgba(255,255,255,0.06)')),
+
+    dusk: theme({
+        id: 'dusk',
+        name: 'Forest Dusk',
+        palette: { sky: ['#2b1d4a', '#f08a4b'], ground: ['#3c5a2e', '#1b2d14'] },
+        foliage: forest('#1a1424', '#13210f'),
+        grass: '#24381a',
+        debris: { kind: 'leaves', color: '#b0652a' },
+        ambient: { kind: 'fireflies', count: 26, color: '#f6e27a' },
+        soundBed: { wind: 0.15, windTone: 450, life: 'crickets', lifeLevel: 0.35 },
+    }, sunGlow('rgba(255, 170, 90, 0.45)', 10), groundLines('rgba(255,220,180,0.05)')),
+
+    night: theme({
+        id: 'night',
+        name: 'Night Range',
+        palette: { sky: ['#050a18', '#14213d'], ground: ['#1f3a24', '#0b160d'] },
+        foliage: treeLine('#070d0a', '#0c1710'),
+        grass: '#12261a',
+        debris: { kind: 'rain', color: 'rgba(200, 215, 240, 0.35)' },
+        ambient: { kind: 'motes', count: 30, color: '#fff7df' },
+        soundBed: { wind: 0.1, windTone: 380, hum: 0.2, life: 'crickets', lifeLevel: 0.2 },
+    }, stars(90), moon, groundLines('rgba(255,255,255,0.04)'), floodlights),
+
+    snow: theme({
+        id: 'snow',
+        name: 'Snowy Field',
+        palette: { sky: ['#9fb3c8', '#e6edf3'], ground: ['#f4f7fa', '#cfd9e3'] },
+        foliage: snowyPines,
+        grass: null,
+        debris: null,   // the snow itself blows with the wind
+        ambient: { kind: 'snow', count: 90, color: '#ffffff' },
+        soundBed: { wind: 0.45, windTone: 320 },
+    }, groundLines('rgba(110,130,155,0.14)', 60)),
+
+    indoor: theme({
+        id: 'indoor',
+        name: 'Indoor Range',
+        palette: { sky: ['#3a2c20', '#22180f'], ground: ['#7a5b3a', '#3b2a1a'] },
+        foliage: null,
+        grass: null,
+        debris: null,
+        ambient: { kind: 'motes', count: 18, color: '#ffe9b8' },
+        soundBed: { wind: 0.06, windTone: 250, hum: 0.3 },
+    }, indoorHall, groundLines('rgba(255,255,255,0.10)', 140)),
+};
+
+export const THEME_IDS = Object.keys(THEMES) as ThemeId[];
+
+export const DEFAULT_THEME: ThemeId = 'day';
+
+export const isThemePreference = (value: unknown): value is ThemePreference =>
+    value === 'random' || (typeof value === 'string' && Object.hasOwn(THEMES, value));
+
+/**
+ * The theme for one match. 'random' hashes the room id and start time, so the
+ * pick is stable for the whole match (and across remounts) but changes between
+ * matches — even practice runs, which all share the room id 'practice'.
+ */
+export const resolveTheme = (preference: ThemePreference, room: Pick<Room, 'id' | 'startedAt'> | null | undefined): ThemeId => {
+    if (preference !== 'random') return preference;
+    if (!room) return DEFAULT_THEME;
+    const seed = `${room.id}:${room.startedAt}`;
+    let hash = 0;
+    for (let i = 0; i < seed.length; i++) hash = (hash * 31 + seed.charCodeAt(i)) | 0;
+    return THEME_IDS[Math.abs(hash) % THEME_IDS.length];
+};
@@ -0,0 +1,56 @@
+/**
+ * Socket event contract — the single source of truth for every message
+ * exchanged with the game server. The `Socket` instance is typed with these
+ * maps so call sites get checked payloads and acknowledgements.
+ */
+import type { Socket } from 'socket.io-client';
+import type {
+    Room,
+    Point,
+    RegisterResponse,
+    RejoinResponse,
+    CreateRoomResponse,
+    JoinRoomResponse,
+    SetNameResponse,
+    TimerUpdate,
+    ShotResult,
+    LeaderboardEntry,
+    LeaderboardQuery,
+    LeaderboardPage,
+    ProfileResponse,
+} from '../types';
+import type { FaceId } from '../game/faces';
+
+/** Variations a player can ask for when joining matchmaking. */
+export interface MatchOptions {
+    movingTarget?: boolean;   // the server adds `targetMotion` to the room
+    face?: FaceId;            // target face to shoot at; the server's default when absent
+    daily?: string;           // solo: the daily challenge for this date (YYYY-MM-DD, UTC) instead of a random run
+    ranked?: boolean;         // multiplayer: a rated match against an opponent of similar rating
+}
+
+export interface ServerToClientEvents {
+    registered: (data: RegisterResponse) => void;
+    gameState: (room: Room) => void;
+    timerUpdate: (data: TimerUpdate) => void;
+    shotResult: (data: ShotResult) => void;
+    leaderboardUpdate: (entries: LeaderboardEntry[]) => void;   // top of the all-time solo board after a new score or a rename; open boards re-request
+}
+
+export interface ClientToServerEvents {
+    register: (data: { userId?: string }, ack: (response: RegisterResponse) => void) => void;
+    setName: (data: { name: string }, ack: (response: SetNameResponse) => void) => void;
+    rejoinGame: (data: { roomId: string }, ack: (response: RejoinResponse) => void) => void;
+    joinGame: (mode: Exclude<Room['mode'], 'practice'>, options?: MatchOptions) => void;
+    createRoom: (ack: (response: CreateRoomResponse) => void) => void;
+    joinRoom: (data: { code: string }, ack: (response: JoinRoomResponse) => void) => void;
+    startMatch: (data: { roomId: string }) => void;
+    leaveRoom: (data: { roomId: string }) => void;   // private room lobby: give up the seat
+    spectateRoom: (data: { code: string }, ack: (response: JoinRoomResponse) => void) => void;
+    stopSpectating: () => void;
+    shoot: (data: { aimPosition: Point }) => void;
+    getLeaderboard: (query: LeaderboardQuery, ack: (page: LeaderboardPage) => void) => void;
+    getProfile: (data: { userId: string }, ack: (response: ProfileResponse) => void) => void;
+}
+
+export type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
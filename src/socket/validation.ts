@@ -0,0 +1,266 @@
+/**
+ * Runtime validation for incoming socket payloads and stored replays.
+ * The server is trusted to follow the contract in events.ts, but a malformed
+ * message must never reach the render loop — it is logged and dropped instead.
+ */
+import type { Socket } from 'socket.io-client';
+import type { GameSocket, ServerToClientEvents } from './events';
+import type {
+    Point,
+    Player,
+    Room,
+    TargetMotion,
+    DailyRun,
+    RatingChange,
+    RegisterResponse,
+    SetNameResponse,
+    RejoinResponse,
+    CreateRoomResponse,
+    JoinRoomResponse,
+    TimerUpdate,
+    ShotResult,
+    LeaderboardEntry,
+    LeaderboardPage,
+    ProfileGame,
+    PlayerProfile,
+    ProfileResponse,
+    Replay,
+    ReplayEvent,
+} from '../types';
+
+type Guard<T> = (value: unknown) => value is T;
+
+type Payload<E extends keyof ServerToClientEvents> = Parameters<ServerToClientEvents[E]>[0];
+
+// ── Primitive guards ──
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isOptional = <T>(guard: Guard<T>) => (value: unknown): value is T | undefined =>
+    value === undefined || guard(value);
+
+const isArrayOf = <T>(guard: Guard<T>) => (value: unknown): value is T[] =>
+    Array.isArray(value) && value.every(guard);
+
+// ── Payload guards ──
+
+export const isPoint: Guard<Point> = (value): value is Point =>
+    isObject(value) && isNumber(value.x) && isNumber(value.y);
+
+export const isPlayer: Guard<Player> = (value): value is Player =>
+    isObject(value)
+    && isString(value.id)
+    && isString(value.userId)
+    && isNumber(value.score)
+    && isOptional(isString)(value.name)
+    && isOptional(isNumber)(value.rating);
+
+const isTargetMotion: Guard<TargetMotion> = (value): value is TargetMotion =>
+    isObject(value)
+    && (value.path === 'slide' || value.path === 'swing' || value.path === 'bob')
+    && isNumber(value.amplitude)
+    && isNumber(value.period) && value.period > 0
+    && isNumber(value.phase);
+
+const isDailyRun: Guard<DailyRun> = (value): value is DailyRun =>
+    isObject(value) && isString(value.date) && typeof value.ranked === 'boolean';
+
+const isRatingChange: Guard<RatingChange> = (value): value is RatingChange =>
+    isObject(value) && isString(value.userId) && isNumber(value.before) && isNumber(value.after);
+
+// Rooms from the server are never practice rooms; recorded replays may be
+const isRoomOf = (modes: readonly Room['mode'][]): Guard<Room> => (value): value is Room =>
+    isObject(value)
+    && isString(value.id)
+    && modes.includes(value.mode as Room['mode'])
+    && isArrayOf(isPlayer)(value.players)
+    && isString(value.currentTurn)
+    && isNumber(value.round)
+    && isNumber(value.maxRounds)
+    && isPoint(value.wind)
+    && isNumber(value.timeLimit)
+    && isNumber(value.timeRemaining)
+    && isNumber(value.startedAt)
+    && isOptional(isString)(value.code)
+    && isOptional(isString)(value.hostId)
+    && (value.status === undefined || value.status === 'lobby' || value.status === 'playing')
+    && isOptional(isNumber)(value.distance)
+    && isOptional(isString)(value.face)
+    && isOptional(isTargetMotion)(value.targetMotion)
+    && isOptional(isDailyRun)(value.daily)
+    && (value.ranked === undefined || typeof value.ranked === 'boolean')
+    && isOptional(isArrayOf(isRatingChange))(value.ratingChanges);
+
+export const isRoom: Guard<Room> = isRoomOf(['solo', 'multiplayer']);
+
+export const isRegisterResponse: Guard<RegisterResponse> = (value): value is RegisterResponse =>
+    isObject(value) && isString(value.userId) && isString(value.name) && isOptional(isNumber)(value.rating);
+
+export const isSetNameResponse: Guard<SetNameResponse> = (value): value is SetNameResponse =>
+    isObject(value)
+    && typeof value.ok === 'boolean'
+    && isOptional(isString)(value.name)
+    && isOptional(isString)(value.error);
+
+export const isRejoinResponse: Guard<RejoinResponse> = (value): value is RejoinResponse =>
+    isObject(value) && typeof value.ok === 'boolean' && (value.room === undefined || isRoom(value.room));
+
+export const isCreateRoomResponse: Guard<CreateRoomResponse> = (value): value is CreateRoomResponse =>
+    isObject(value) && isString(value.code);
+
+export const isJoinRoomResponse: Guard<JoinRoomResponse> = (value): value is JoinRoomResponse =>
+    isObject(value) && typeof value.ok === 'boolean' && isOptional(isString)(value.error);
+
+export const isTimerUpdate: Guard<TimerUpdate> = (value): value is TimerUpdate =>
+    isObject(value) && isNumber(value.timeRemaining);
+
+export const isShotResult: Guard<ShotResult> = (value): value is ShotResult =>
+    isObject(value)
+    && isString(value.player)
+    && isArrayOf(isPoint)(value.path)
+    && (value.path as Point[]).length > 0
+    && isNumber(value.score);
+
+export const isLeaderboardEntry: Guard<LeaderboardEntry> = (value): value is LeaderboardEntry =>
+    isObject(value)
+    && isString(value.userId)
+    && isString(value.name)
+    && isNumber(value.score)
+    && isNumber(value.date)
+    && isOptional(isNumber)(value.rating);
+
+export const isLeaderboard: Guard<LeaderboardEntry[]> = isArrayOf(isLeaderboardEntry);
+
+export const isLeaderboardPage: Guard<LeaderboardPage> = (value): value is LeaderboardPage =>
+    isObject(value)
+    && isNumber(value.offset)
+    && isNumber(value.total)
+    && isLeaderboard(value.entries)
+    && (value.myRank === null || isNumber(value.myRank));
+
+const isProfileGame: Guard<ProfileGame> = (value): value is ProfileGame =>
+    isObject(value)
+    && isNumber(value.date)
+    && (value.mode === 'solo' || value.mode === 'multiplayer')
+    && isNumber(value.score);
+
+/** Also checks profiles read back from the offline cache. */
+export const isPlayerProfile: Guard<PlayerProfile> = (value): value is PlayerProfile =>
+    isObject(value)
+    && isString(value.userId)
+    && isString(value.name)
+    && isOptional(isNumber)(value.rating)
+    && isNumber(value.gamesPlayed)
+    && isNumber(value.bestSoloScore)
+    && isNumber(value.shots)
+    && isNumber(value.totalScore)
+    && isNumber(value.bullseyes)
+    && isNumber(value.wins)
+    && isNumber(value.losses)
+    && isNumber(value.draws)
+    && isArrayOf(isProfileGame)(value.games)
+    && isArrayOf(isPoint)(value.hits)
+    && isOptional(isArrayOf(isString))(value.achievements)
+    && isNumber(value.updatedAt);
+
+export const isProfileResponse: Guard<ProfileResponse> = (value): value is ProfileResponse =>
+    isObject(value) && typeof value.ok === 'boolean' && isOptional(isPlayerProfile)(value.profile);
+
+// ── Stored data guards ──
+
+const isRecordedRoom = isRoomOf(['solo', 'multiplayer', 'practice']);
+
+const isReplayEvent: Guard<ReplayEvent> = (value): value is ReplayEvent =>
+    isObject(value)
+    && isNumber(value.t)
+    && (
+        (value.type === 'gameState' && isRecordedRoom(value.payload))
+        || (value.type === 'shotResult' && isShotResult(value.payload))
+    );
+
+/** Validate a replay read from storage or an imported file. */
+export const isReplay: Guard<Replay> = (value): value is Replay =>
+    isObject(value)
+    && value.version === 1
+    && isString(value.id)
+    && isNumber(value.recordedAt)
+    && isString(value.playerId)
+    && (value.mode === 'solo' || value.mode === 'multiplayer' || value.mode === 'practice')
+    && isArrayOf(isReplayEvent)(value.events);
+
+const payloadGuards: { [E in keyof ServerToClientEvents]: Guard<Payload<E>> } = {
+    registered: isRegisterResponse,
+    gameState: isRoom,
+    timerUpdate: isTimerUpdate,
+    shotResult: isShotResult,
+    leaderboardUpdate: isLeaderboard,
+};
+
+// ── Subscription helpers ──
+
+/**
+ * Subscribe to a server event with payload validation.
+ * Returns an unsubscribe function for use in effect cleanups.
+ */
+export function listen<E extends keyof ServerToClientEvents>(
+    socket: GameSocket,
+    event: E,
+    handler: (payload: Payload<E>) => void,
+): () => void {
+    const guard = payloadGuards[event] as Guard<Payload<E>>;
+    const listener = (payload: unknown) => {
+        if (!guard(payload)) {
+            console.error(`Rejected malformed "${event}" payload:`, payload);
+            return;
+        }
+        handler(payload);
+    };
+
+    // socket.io cannot narrow its listener type through a generic event name,
+    // and the listener deliberately accepts `unknown` — register it untyped.
+    const raw = socket as unknown as Socket;
+    raw.on(event as string, listener);
+    return () => {
+        raw.off(event as string, listener);
+    };
+}
+
+/** Wrap an acknowledgement callback so it only runs with a valid response. */
+export function validated<T>(label: string, guard: Guard<T>, handler: (response: T) => void) {
+    return (response: T) => {
+        if (!guard(response)) {
+            console.error(`Rejected malformed "${label}" response:`, response);
+            return;
+        }
+        handler(response);
+    };
+}
+
+/** How long to wait for an acknowledgement before giving up on it (ms). */
+export const ACK_TIMEOUT_MS = 8000;
+
+/**
+ * Like `validated`, for acks emitted through `socket.timeout(ACK_TIMEOUT_MS)`:
+ * `onFailure` runs instead when no answer arrives in time or it is malformed.
+ */
+export function validatedOrFail<T>(label: string, guard: Guard<T>, handler: (response: T) => void, onFailure: () => void) {
+    return (err: Error | null, response: T) => {
+        if (err) {
+            console.warn(`No "${label}" response:`, err.message);
+            onFailure();
+            return;
+        }
+        if (!guard(response)) {
+            console.error(`Rejected malformed "${label}" response:`, response);
+            onFailure();
+            return;
+        }
+        handler(response);
+    };
+}
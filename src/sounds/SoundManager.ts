@@ -1,9 +1,13 @@
 /**
  * SoundManager — Game audio using real sound files + Web Audio API synthesis.
  * Real recordings for aim, release/flight, and impact.
- * Synthesized effects for score pop and match end accents.
+ * Synthesized effects for score pop and match end accents, and the
+ * environment's ambient sound bed.
  */
 
+import type { SoundBed } from '../game/themes';
+import { scoreTier } from '../game/faces';
+
 let ctx: AudioContext | null = null;
 
 const getCtx = (): AudioContext => {
@@ -105,8 +109,9 @@ export const playFlight = async (_duration: number = 0.8) => {
 };
 
 /** Arrow impact — real hit sound + ring-based bonus
- * @param score 0=miss, 1-7=outer, 8-9=inner, 10=bullseye */
-export const playImpact = async (score: number) => {
+ * @param score 0=miss, up to maxScore=bullseye
+ * @param maxScore the face's best score (10 on a WA face, 6 on a field face) */
+export const playImpact = async (score: number, maxScore: number) => {
     await preloadAll();
 
     if (score === 0) {
@@ -129,23 +134,24 @@ export const playImpact = async (score: number) => {
     const buf = audioBuffers[SOUNDS.hit];
     if (buf) {
         // Closer to center = crisper (higher playback rate)
-        const rate = 0.85 + (score / 10) * 0.4;
+        const rate = 0.85 + (score / maxScore) * 0.4;
         playSample(buf, 0.5, rate);
     }
 
     // Bullseye bonus — play the cartoon hit sound
-    if (score === 10) {
+    if (score >= maxScore) {
         const bullBuf = audioBuffers[SOUNDS.bullseye];
         if (bullBuf) playSample(bullBuf, 0.4, 1.0);
     }
 };
 
 /** Score pop — real click sound */
-export const playScorePop = async (score: number) => {
+export const playScorePop = async (score: number, maxScore: number) => {
     await preloadAll();
     const buf = audioBuffers[SOUNDS.click];
     if (buf) {
-        const rate = score >= 8 ? 1.3 : score >= 5 ? 1.1 : 0.9;
+        const tier = scoreTier(score, maxScore);
+        const rate = tier === 'top' || tier === 'high' ? 1.3 : tier === 'mid' ? 1.1 : 0.9;
         playSample(buf, 0.4, rate);
     }
 };
@@ -156,3 +162,127 @@ export const playMatchEnd = async () => {
     const buf = audioBuffers[SOUNDS.win];
     if (buf) playSample(buf, 0.5);
 };
+
+// ══════════════════════════════════════════
+// Ambient sound bed
+// ══════════════════════════════════════════
+
+let bed: { master: GainNode; sources: AudioScheduledSourceNode[]; timer: ReturnType<typeof setInterval> | null } | null = null;
+
+const noiseBuffer = (ac: AudioContext, seconds: number) => {
+    const buffer = ac.createBuffer(1, ac.sampleRate * seconds, ac.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+    return buffer;
+};
+
+// One cricket chirp: three quick pulses of a high tone
+const chirpCricket = (ac: AudioContext, dest: AudioNode, level: number) => {
+    const t = ac.currentTime;
+    const freq = 4200 + Math.random() * 600;
+    for (let i = 0; i < 3; i++) {
+        const start = t + i * 0.045;
+        const gain = ac.createGain();
+        gain.gain.setValueAtTime(0.0001, start);
+        gain.gain.exponentialRampToValueAtTime(0.03 * level, start + 0.008);
+        gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.03);
+        gain.connect(dest);
+        const osc = createOsc(ac, 'sine', freq, gain);
+        osc.start(start);
+        osc.stop(start + 0.035);
+    }
+};
+
+// One bird call: a couple of quick rising/falling whistles
+const chirpBird = (ac: AudioContext, dest: AudioNode, level: number) => {
+    const t = ac.currentTime;
+    const notes = 2 + Math.floor(Math.random() * 3);
+    for (let i = 0; i < notes; i++) {
+        const start = t + i * 0.12;
+        const base = 2400 + Math.random() * 1400;
+        const gain = ac.createGain();
+        gain.gain.setValueAtTime(0.0001, start);
+        gain.gain.exponentialRampToValueAtTime(0.025 * level, start + 0.02);
+        gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.09);
+        gain.connect(dest);
+        const osc = createOsc(ac, 'sine', base, gain);
+        osc.frequency.exponentialRampToValueAtTime(base * (Math.random() < 0.5 ? 1.4 : 0.7), start + 0.08);
+        osc.start(start);
+        osc.stop(start + 0.1);
+    }
+};
+
+/** Start the theme's ambience (wind, light hum, wildlife), replacing any that's playing. */
+export const startSoundBed = (sound: SoundBed) => {
+    stopSoundBed();
+    const ac = getCtx();
+    const t = ac.currentTime;
+    const master = ac.createGain();
+    master.gain.setValueAtTime(0.0001, t);
+    master.gain.exponentialRampToValueAtTime(1, t + 1.5);
+    master.connect(ac.destination);
+    const sources: AudioScheduledSourceNode[] = [];
+
+    // Wind: looped noise through a lowpass, with a slow LFO for gusts
+    if (sound.wind > 0) {
+        const noise = ac.createBufferSource();
+        noise.buffer = noiseBuffer(ac, 2);
+        noise.loop = true;
+        const filter = ac.createBiquadFilter();
+        filter.type = 'lowpass';
+        filter.frequency.value = sound.windTone;
+        const gain = ac.createGain();
+        gain.gain.value = sound.wind * 0.12;
+        const gustDepth = ac.createGain();
+        gustDepth.gain.value = sound.wind * 0.06;
+        gustDepth.connect(gain.gain);
+        const gust = createOsc(ac, 'sine', 0.13, gustDepth);
+        noise.connect(filter);
+        filter.connect(gain);
+        gain.connect(master);
+        noise.start();
+        gust.start();
+        sources.push(noise, gust);
+    }
+
+    // Mains hum from the lights
+    if (sound.hum) {
+        const hum = ac.createGain();
+        hum.gain.value = sound.hum * 0.02;
+        hum.connect(master);
+        for (const freq of [60, 120]) {
+            const osc = createOsc(ac, freq === 60 ? 'sine' : 'triangle', freq, hum);
+            osc.start();
+            sources.push(osc);
+        }
+    }
+
+    let timer: ReturnType<typeof setInterval> | null = null;
+    if (sound.life) {
+        const level = sound.lifeLevel ?? 0.3;
+        const call = sound.life === 'crickets' ? chirpCricket : chirpBird;
+        const chance = sound.life === 'crickets' ? 0.7 : 0.25;
+        timer = setInterval(() => {
+            // While suspended, currentTime is frozen: queued calls would all sound at once on resume
+            if (ac.state !== 'running') return;
+            if (Math.random() < chance) call(ac, master, level);
+        }, 600);
+    }
+
+    bed = { master, sources, timer };
+};
+
+/** Fade the ambience out. */
+export const stopSoundBed = () => {
+    if (!bed) return;
+    const { master, sources, timer } = bed;
+    bed = null;
+    if (timer !== null) clearInterval(timer);
+    const ac = master.context;
+    const t = ac.currentTime;
+    master.gain.cancelScheduledValues(t);
+    master.gain.setValueAtTime(Math.max(master.gain.value, 0.0001), t);
+    master.gain.exponentialRampToValueAtTime(0.0001, t + 0.8);
+    sources.forEach(source => source.stop(t + 0.8));
+    setTimeout(() => master.disconnect(), 900);
+};
@@ -0,0 +1,98 @@
+import { create } from 'zustand';
+import type { Room } from '../types';
+import type { ShotRecord } from './useMatchStore';
+import type { TargetFace } from '../game/faces';
+import {
+    achievementById,
+    emptyProgress,
+    isAchievementId,
+    matchAchievements,
+    shotAchievements,
+    type Achievement,
+    type AchievementId,
+    type AchievementProgress,
+} from '../game/achievements';
+
+const STORAGE_KEY = 'archr_achievements';   // progress keyed by userId
+
+const loadProgress = (): Record<string, AchievementProgress> => {
+    try {
+        const parsed: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+        if (typeof parsed !== 'object' || parsed === null) return {};
+        const progress: Record<string, AchievementProgress> = {};
+        for (const [userId, value] of Object.entries(parsed as Record<string, Partial<AchievementProgress>>)) {
+            const unlocked = Object.fromEntries(
+                Object.entries(value?.unlocked ?? {}).filter(([id, at]) => isAchievementId(id) && typeof at === 'number')
+            );
+            progress[userId] = {
+                unlocked,
+                gamesPlayed: typeof value?.gamesPlayed === 'number' ? value.gamesPlayed : 0,
+                lastRoomId: typeof value?.lastRoomId === 'string' ? value.lastRoomId : null,
+            };
+        }
+        return progress;
+    } catch (err) {
+        console.warn('Could not read stored achievements:', err);
+        return {};
+    }
+};
+
+const storeProgress = (progress: Record<string, AchievementProgress>) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(progress));
+    } catch (err) {
+        console.warn('Could not store achievements:', err);
+    }
+};
+
+interface AchievementState {
+    progress: Record<string, AchievementProgress>;
+    toasts: Achievement[];   // unlocked, waiting to be shown over the canvas
+
+    // Actions
+    /** Check the player's latest arrow, after it's been logged in useMatchStore. */
+    recordShot: (userId: string, shots: ShotRecord[], face: TargetFace) => void;
+    /** Count a finished match once and check the result. */
+    recordMatch: (userId: string, room: Room) => void;
+    dismissToast: () => void;
+}
+
+export const useAchievementStore = create<AchievementState>((set, get) => {
+    // Unlock whichever of `earned` are new, queue their toasts and save
+    const commit = (userId: string, next: AchievementProgress, earned: AchievementId[]) => {
+        const fresh = earned.filter(id => next.unlocked[id] === undefined);
+        const now = Date.now();
+        for (const id of fresh) next.unlocked[id] = now;
+
+        const progress = { ...get().progress, [userId]: next };
+        set({ progress, toasts: [...get().toasts, ...fresh.map(achievementById)] });
+        storeProgress(progress);
+    };
+
+    const current = (userId: string): AchievementProgress => {
+        const stored = get().progress[userId] ?? emptyProgress();
+        return { ...stored, unlocked: { ...stored.unlocked } };
+    };
+
+    return {
+        progress: loadProgress(),
+        toasts: [],
+
+        recordShot: (userId, shots, face) => {
+            const earned = shotAchievements(shots, userId, face);
+            const next = current(userId);
+            if (earned.every(id => next.unlocked[id] !== undefined)) return;
+            commit(userId, next, earned);
+        },
+
+        recordMatch: (userId, room) => {
+            const next = current(userId);
+            if (next.lastRoomId === room.id) return;
+            next.gamesPlayed++;
+            next.lastRoomId = room.id;
+            commit(userId, next, matchAchievements(room, userId, next.gamesPlayed));
+        },
+
+        dismissToast: () => set({ toasts: get().toasts.slice(1) }),
+    };
+});
@@ -0,0 +1,41 @@
+import { create } from 'zustand';
+
+const STORAGE_KEY = 'archr_daily';
+
+/** The ranked daily run most recently finished on this device. */
+export interface DailyResult {
+    date: string;          // YYYY-MM-DD (UTC)
+    score: number;
+}
+
+const loadResult = (): DailyResult | null => {
+    try {
+        const parsed: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+        const stored = parsed as Partial<DailyResult> | null;
+        return typeof stored?.date === 'string' && typeof stored.score === 'number'
+            ? { date: stored.date, score: stored.score }
+            : null;
+    } catch (err) {
+        console.warn('Could not read stored daily result:', err);
+        return null;
+    }
+};
+
+interface DailyState {
+    ranked: DailyResult | null;
+    /** Remember the day's ranked score; the server has it too, this is for the menu. */
+    recordRanked: (result: DailyResult) => void;
+}
+
+export const useDailyStore = create<DailyState>((set) => ({
+    ranked: loadResult(),
+
+    recordRanked: (result) => {
+        set({ ranked: result });
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(result));
+        } catch (err) {
+            console.warn('Could not store daily result:', err);
+        }
+    },
+}));
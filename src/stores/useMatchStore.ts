@@ -0,0 +1,57 @@
+import { create } from 'zustand';
+import type { Point, Room, ShotResult } from '../types';
+import { roomDistance } from '../game/distance';
+
+/** One arrow as it was shot — kept for the whole match, unlike the canvas's pinned arrows. */
+export interface ShotRecord {
+    player: string;                   // userId of the archer
+    round: number;                    // room round when the arrow was released
+    hit: Point;                       // offset from target center (screen px at the default scale × the distance's scale)
+    distance: number;                 // meters to the target at release, which sets the hit's scale
+    score: number;
+    wind: Point;                      // wind at release
+    aimDuration: number | null;       // ms from draw to release — only known for our own shots
+}
+
+interface MatchState {
+    roomId: string | null;
+    shots: ShotRecord[];
+    pendingAimDuration: number | null; // our last release, waiting for its shotResult
+
+    // Actions
+    resetMatch: () => void;
+    recordRelease: (aimDuration: number) => void;
+    recordShot: (result: ShotResult, room: Room, playerId: string | undefined) => void;
+}
+
+export const useMatchStore = create<MatchState>((set, get) => ({
+    roomId: null,
+    shots: [],
+    pendingAimDuration: null,
+
+    resetMatch: () => set({ roomId: null, shots: [], pendingAimDuration: null }),
+
+    recordRelease: (aimDuration) => set({ pendingAimDuration: aimDuration }),
+
+    recordShot: (result, room, playerId) => {
+        const { roomId, shots, pendingAimDuration } = get();
+        const isMine = result.player === playerId;
+
+        const shot: ShotRecord = {
+            player: result.player,
+            round: room.round,
+            hit: result.path[0],
+            distance: roomDistance(room),
+            score: result.score,
+            wind: room.wind,
+            aimDuration: isMine ? pendingAimDuration : null,
+        };
+
+        // A different room means a new match — start a fresh log
+        set({
+            roomId: room.id,
+            shots: roomId === room.id ? [...shots, shot] : [shot],
+            pendingAimDuration: isMine ? null : pendingAimDuration,
+        });
+    },
+}));
@@ -0,0 +1,54 @@
+import { create } from 'zustand';
+import { DEFAULT_THEME, isThemePreference, type ThemePreference } from '../game/themes';
+import { DEFAULT_FACE, isFaceId, type FaceId } from '../game/faces';
+
+const STORAGE_KEY = 'archr_settings';
+
+interface StoredSettings {
+    theme: ThemePreference;
+    face: FaceId;          // target face for practice, and asked for in matchmaking
+}
+
+const DEFAULT_SETTINGS: StoredSettings = { theme: DEFAULT_THEME, face: DEFAULT_FACE };
+
+const loadSettings = (): StoredSettings => {
+    try {
+        const parsed: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+        const stored = parsed as Partial<StoredSettings> | null;
+        return {
+            theme: isThemePreference(stored?.theme) ? stored.theme : DEFAULT_SETTINGS.theme,
+            face: isFaceId(stored?.face) ? stored.face : DEFAULT_SETTINGS.face,
+        };
+    } catch (err) {
+        console.warn('Could not read stored settings:', err);
+        return DEFAULT_SETTINGS;
+    }
+};
+
+const storeSettings = (settings: StoredSettings) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (err) {
+        console.warn('Could not store settings:', err);
+    }
+};
+
+/** Player preferences, kept on this device. */
+interface SettingsState extends StoredSettings {
+    setTheme: (theme: ThemePreference) => void;
+    setFace: (face: FaceId) => void;
+}
+
+export const useSettingsStore = create<SettingsState>((set, get) => ({
+    ...loadSettings(),
+
+    setTheme: (theme) => {
+        set({ theme });
+        storeSettings({ theme, face: get().face });
+    },
+
+    setFace: (face) => {
+        set({ face });
+        storeSettings({ theme: get().theme, face });
+    },
+}));
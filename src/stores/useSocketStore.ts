@@ -1,6 +1,8 @@
 import { create } from 'zustand';
-import { io, Socket } from 'socket.io-client';
-import type { Room } from '../types';
+import { io } from 'socket.io-client';
+import type { Room, RegisterResponse } from '../types';
+import type { GameSocket } from '../socket/events';
+import { listen, validated, validatedOrFail, isRegisterResponse, isRejoinResponse, isSetNameResponse, ACK_TIMEOUT_MS } from '../socket/validation';
 
 // const SOCKET_URL = 'http://192.168.1.184:3000';
 const SOCKET_URL = import.meta.env.VITE_SOCKET_URL || 'http://localhost:3000';
@@ -8,11 +10,15 @@ const SOCKET_URL = import.meta.env.VITE_SOCKET_URL || 'http://localhost:3000';
 const STORAGE_KEY = 'archr_userId';
 
 interface SocketState {
-    socket: Socket | null;
+    socket: GameSocket | null;
     connected: boolean;
+    reconnecting: boolean;            // connection dropped after registering; socket.io is retrying
+    resumeFailed: boolean;            // reconnected, but the server no longer had our room
     room: Room | null;
     playerId: string | undefined;     // userId (persistent)
-    playerName: string | undefined;   // auto-generated name
+    playerName: string | undefined;   // auto-generated until the player picks one
+    nameError: string | null;         // why the server turned down the last rename
+    rating: number | undefined;       // Elo rating; undefined until the first ranked match
     finalScore: number | null;
 
     // Actions
@@ -20,14 +26,22 @@ interface SocketState {
     disconnect: () => void;
     setRoom: (room: Room | null) => void;
     setFinalScore: (score: number | null) => void;
+    setRating: (rating: number) => void;
+    /** Rename right away and roll back if the server refuses; check `nameProblem` first. */
+    setName: (name: string) => void;
+    dismissResumeFailed: () => void;
 }
 
 export const useSocketStore = create<SocketState>((set, get) => ({
     socket: null,
     connected: false,
+    reconnecting: false,
+    resumeFailed: false,
     room: null,
     playerId: undefined,
     playerName: undefined,
+    nameError: null,
+    rating: undefined,
     finalScore: null,
 
     connect: () => {
@@ -35,7 +49,41 @@ export const useSocketStore = create<SocketState>((set, get) => ({
         if (get().socket) return;
 
         console.log('Initializing socket connection to', SOCKET_URL);
-        const newSocket = io(SOCKET_URL);
+        const newSocket: GameSocket = io(SOCKET_URL);
+
+        // Re-join the room we were in before the connection dropped
+        const resumeRoom = (roomId: string) => {
+            console.log('Resuming room:', roomId);
+            // No answer is as good as a no: the overlay can't wait forever. A connection
+            // that dropped again meanwhile resumes on its next register instead.
+            const failed = () => {
+                if (!newSocket.connected) return;
+                set({ room: null, reconnecting: false, resumeFailed: true });
+            };
+            newSocket.timeout(ACK_TIMEOUT_MS).emit('rejoinGame', { roomId }, validatedOrFail('rejoinGame', isRejoinResponse, (response) => {
+                if (response.ok && response.room) {
+                    console.log('Resumed room:', response.room.id);
+                    set({ room: response.room, reconnecting: false });
+                } else {
+                    console.warn('Could not resume room:', roomId);
+                    failed();
+                }
+            }, failed));
+        };
+
+        const handleRegistered = (data: RegisterResponse) => {
+            localStorage.setItem(STORAGE_KEY, data.userId);
+            set({ connected: true, playerId: data.userId, playerName: data.name, rating: data.rating });
+
+            const { reconnecting, room } = get();
+            if (!reconnecting) return;
+            // Practice runs offline — the server never had that room, so there's nothing to resume
+            if (room && room.mode !== 'practice') {
+                resumeRoom(room.id);
+            } else {
+                set({ reconnecting: false });
+            }
+        };
 
         newSocket.on('connect', () => {
             console.log('Socket connected:', newSocket.id);
@@ -43,28 +91,37 @@ export const useSocketStore = create<SocketState>((set, get) => ({
             // Send stored userId (or nothing) for registration
             const storedUserId = localStorage.getItem(STORAGE_KEY) || undefined;
 
-            newSocket.emit('register', { userId: storedUserId }, (response: { userId: string; name: string }) => {
+            newSocket.emit('register', { userId: storedUserId }, validated('register', isRegisterResponse, (response) => {
                 // Callback-based acknowledgment
                 console.log('Registered with userId:', response.userId, 'name:', response.name);
-                localStorage.setItem(STORAGE_KEY, response.userId);
-                set({ connected: true, playerId: response.userId, playerName: response.name });
-            });
+                handleRegistered(response);
+            }));
+        });
 
-            // Fallback: if server uses emit instead of callback
-            newSocket.on('registered', (data: { userId: string; name: string }) => {
-                console.log('Registered (event) with userId:', data.userId, 'name:', data.name);
-                localStorage.setItem(STORAGE_KEY, data.userId);
-                set({ connected: true, playerId: data.userId, playerName: data.name });
-            });
+        // Fallback: if server uses emit instead of callback
+        listen(newSocket, 'registered', (data) => {
+            console.log('Registered (event) with userId:', data.userId, 'name:', data.name);
+            handleRegistered(data);
         });
 
-        newSocket.on('disconnect', () => {
-            console.log('Socket disconnected');
-            set({ connected: false });
+        newSocket.on('disconnect', (reason) => {
+            console.log('Socket disconnected:', reason);
+
+            // A deliberate client disconnect is final; anything else is retried
+            const willRetry = reason !== 'io client disconnect';
+            set({
+                connected: false,
+                reconnecting: willRetry && get().playerId !== undefined,
+            });
+
+            // socket.io does not retry by itself after a server-side disconnect
+            if (reason === 'io server disconnect') {
+                newSocket.connect();
+            }
         });
 
         // Solo timer updates
-        newSocket.on('timerUpdate', (data: { timeRemaining: number }) => {
+        listen(newSocket, 'timerUpdate', (data) => {
             const room = get().room;
             if (room) {
                 set({ room: { ...room, timeRemaining: data.timeRemaining } });
@@ -79,10 +136,34 @@ export const useSocketStore = create<SocketState>((set, get) => ({
         if (socket) {
             console.log('Cleaning up socket connection');
             socket.disconnect();
-            set({ socket: null, connected: false });
+            set({ socket: null, connected: false, reconnecting: false });
         }
     },
 
     setRoom: (room) => set({ room }),
     setFinalScore: (finalScore) => set({ finalScore }),
+    setRating: (rating) => set({ rating }),
+
+    setName: (name) => {
+        const { socket, playerName: previous } = get();
+        if (!socket || name === previous) return;
+
+        set({ playerName: name, nameError: null });
+        // A later rename has already replaced this one; leave it be
+        const superseded = () => get().playerName !== name;
+        socket.timeout(ACK_TIMEOUT_MS).emit('setName', { name }, validatedOrFail('setName', isSetNameResponse, (response) => {
+            if (superseded()) return;
+            if (response.ok) {
+                set({ playerName: response.name ?? name });
+            } else {
+                console.warn('Name rejected:', response.error);
+                set({ playerName: previous, nameError: response.error || 'That name is not allowed' });
+            }
+        }, () => {
+            if (superseded()) return;
+            set({ playerName: previous, nameError: 'Could not save your name. Try again.' });
+        }));
+    },
+
+    dismissResumeFailed: () => set({ resumeFailed: false }),
 }));
@@ -7,11 +7,34 @@ export interface Player {
     id: string;       // socket.id (ephemeral)
     userId: string;   // persistent user ID
     score: number;
+    name?: string;    // display name, once the server has assigned one
+    rating?: number;  // ranked matches: Elo rating going into the match
+}
+
+/** One archer's rating before and after a ranked match. */
+export interface RatingChange {
+    userId: string;
+    before: number;
+    after: number;
+}
+
+/** Moving-target matches: the target travels a repeating path around its usual spot. */
+export interface TargetMotion {
+    path: 'slide' | 'swing' | 'bob';
+    amplitude: number;   // px: half the slide/bob travel, or the swing's pendulum length
+    period: number;      // ms per full cycle
+    phase: number;       // cycle position (0 → 1) when this state was sent
+}
+
+/** Daily challenge runs: everyone shoots the same seeded run on the same date. */
+export interface DailyRun {
+    date: string;        // YYYY-MM-DD (UTC) the run is seeded from
+    ranked: boolean;     // the player's first attempt that day; only it counts on the daily board
 }
 
 export interface Room {
     id: string;
-    mode: 'solo' | 'multiplayer';
+    mode: 'solo' | 'multiplayer' | 'practice';   // practice runs offline, never on the server
     players: Player[];
     currentTurn: string;   // userId of current player
     round: number;
@@ -21,4 +44,129 @@ export interface Room {
     timeLimit: number;      // total seconds (60 for solo, 0 for multiplayer)
     timeRemaining: number;  // seconds left
     startedAt: number;      // timestamp when game started
+    // Private room fields
+    code?: string;                  // short join code
+    hostId?: string;                // userId of the player who created the room
+    status?: 'lobby' | 'playing';   // private rooms wait in the lobby until the host starts
+    distance?: number;              // meters to the target, set by the server (solo steps it back as the score climbs); the default range when absent
+    face?: string;                  // target face id (see game/faces); the default face when absent or unknown
+    // Moving-target matches
+    targetMotion?: TargetMotion;
+    // Daily challenge runs (solo)
+    daily?: DailyRun;
+    // Ranked matches (head-to-head)
+    ranked?: boolean;
+    ratingChanges?: RatingChange[];   // sent with the final state once ratings are updated
+}
+
+// ── Socket payloads ──
+
+export interface RegisterResponse {
+    userId: string;
+    name: string;
+    rating?: number;   // current Elo rating; absent until the first ranked match
+}
+
+export interface RejoinResponse {
+    ok: boolean;
+    room?: Room;
+}
+
+export interface CreateRoomResponse {
+    code: string;
+}
+
+export interface JoinRoomResponse {
+    ok: boolean;
+    error?: string;
+}
+
+export interface SetNameResponse {
+    ok: boolean;
+    name?: string;     // the name as the server stored it
+    error?: string;    // why it was rejected
+}
+
+export interface TimerUpdate {
+    timeRemaining: number;
+}
+
+export interface ShotResult {
+    player: string;   // userId of the shooter
+    path: Point[];    // path[0] is the hit point, relative to target center
+    score: number;
+}
+
+/** Which board to read: a time window over one kind of result. */
+export interface LeaderboardScope {
+    window: 'today' | 'week' | 'all';   // today and this week roll over at midnight / Monday UTC
+    mode: 'solo' | 'daily' | 'wins';     // timed solo scores, daily challenge scores, multiplayer wins
+}
+
+/** One page of a board: a run of consecutive ranks. */
+export interface LeaderboardQuery extends LeaderboardScope {
+    offset: number;      // 0-based rank of the first entry wanted; ignored with `around`
+    limit: number;
+    around?: boolean;    // the page centered on the requesting player instead
+}
+
+export interface LeaderboardPage {
+    offset: number;            // 0-based rank of entries[0]
+    total: number;             // entries on the whole board
+    entries: LeaderboardEntry[];
+    myRank: number | null;     // the requesting player's 1-based rank anywhere on the board; null if not on it
+}
+
+/** One finished game on a player's record. */
+export interface ProfileGame {
+    date: number;              // timestamp the game ended
+    mode: 'solo' | 'multiplayer';
+    score: number;
+}
+
+/** Lifetime statistics for one player, as the server keeps them. */
+export interface PlayerProfile {
+    userId: string;
+    name: string;
+    rating?: number;
+    gamesPlayed: number;
+    bestSoloScore: number;
+    shots: number;             // arrows loosed, all modes
+    totalScore: number;        // summed over every arrow
+    bullseyes: number;         // arrows in the top-scoring ring of their face
+    wins: number;              // multiplayer record
+    losses: number;
+    draws: number;
+    games: ProfileGame[];      // oldest first; the server keeps the most recent few hundred
+    hits: Point[];             // every arrow's landing point, board units from the target center
+    achievements?: string[];   // achievement ids unlocked on any device (see game/achievements)
+    updatedAt: number;         // when the server compiled these
+}
+
+export interface ProfileResponse {
+    ok: boolean;
+    profile?: PlayerProfile;   // absent when the server has never seen this userId
+}
+
+export interface LeaderboardEntry {
+    userId: string;
+    name: string;
+    score: number;     // points, or the win count on the wins board
+    date: number;
+    rating?: number;   // current Elo rating, for the rank badge
+}
+
+// ── Replays ──
+
+export type ReplayEvent =
+    | { t: number; type: 'gameState'; payload: Room }
+    | { t: number; type: 'shotResult'; payload: ShotResult };
+
+export interface Replay {
+    version: 1;
+    id: string;
+    recordedAt: number;          // epoch ms when the match finished
+    playerId: string;            // whose point of view was recorded
+    mode: Room['mode'];
+    events: ReplayEvent[];       // t = ms since the first event, ascending
 }